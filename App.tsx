@@ -1,18 +1,44 @@
-import React, {useEffect, useState} from 'react';
-import {StatusBar, View, Text, StyleSheet, ActivityIndicator} from 'react-native';
+import React, {useEffect, useRef, useState} from 'react';
+import {
+  AppState,
+  AppStateStatus,
+  StatusBar,
+  View,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
 import {SafeAreaProvider} from 'react-native-safe-area-context';
 import {NavigationContainer} from '@react-navigation/native';
 import {RootNavigator} from './src/navigation';
 import {embraceService} from './src/services/embrace';
+import {apiService} from './src/services/api';
+import {useCartStore} from './src/store/cartStore';
 
 function App(): React.JSX.Element {
   const [isEmbraceReady, setIsEmbraceReady] = useState(false);
   const [initError, setInitError] = useState<string | null>(null);
 
+  const appStateRef = useRef<AppStateStatus>(AppState.currentState);
+
   useEffect(() => {
     initializeApp();
   }, []);
 
+  // Prices and stock may have moved while the app was in the background
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', nextState => {
+      const cameToForeground =
+        appStateRef.current !== 'active' && nextState === 'active';
+      appStateRef.current = nextState;
+      if (cameToForeground && useCartStore.getState().items.length > 0) {
+        useCartStore.getState().revalidate('foreground');
+      }
+    });
+
+    return () => subscription.remove();
+  }, []);
+
   const initializeApp = async () => {
     try {
       // Initialize Embrace SDK
@@ -21,6 +47,14 @@ function App(): React.JSX.Element {
       if (started) {
         console.log('Embrace SDK initialized successfully');
         embraceService.addBreadcrumb('APP_INITIALIZED');
+        embraceService.addSessionProperty(
+          'api_transport',
+          apiService.getTransportMode(),
+        );
+        embraceService.addSessionProperty(
+          'fault_profile',
+          apiService.getFaultProfile(),
+        );
       } else {
         console.log('Embrace SDK initialization returned false - continuing without SDK');
       }
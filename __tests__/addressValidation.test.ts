@@ -0,0 +1,121 @@
+/**
+ * @format
+ */
+
+import {
+  getAddressFormat,
+  isAddressValid,
+  normalizeAddress,
+  validateAddress,
+} from '../src/services/addressValidation';
+import {AddressInput} from '../src/models/Address';
+
+const address = (overrides: Partial<AddressInput> = {}): AddressInput => ({
+  firstName: 'Jane',
+  lastName: 'Doe',
+  street: '350 Fifth Avenue',
+  city: 'New York',
+  state: 'NY',
+  zipCode: '10118',
+  country: 'United States',
+  addressType: 'both',
+  isDefault: false,
+  ...overrides,
+});
+
+describe('normalizeAddress', () => {
+  test('trims fields and upper-cases region and postal codes', () => {
+    const normalized = normalizeAddress(
+      address({
+        street: '  350 Fifth Avenue ',
+        street2: '  ',
+        state: ' ny',
+        country: 'united states',
+      }),
+    );
+    expect(normalized).toMatchObject({
+      street: '350 Fifth Avenue',
+      street2: undefined,
+      state: 'NY',
+      country: 'United States',
+    });
+  });
+
+  test('leaves free-text regions as typed', () => {
+    const normalized = normalizeAddress(
+      address({country: 'United Kingdom', state: 'Greater London'}),
+    );
+    expect(normalized.state).toBe('Greater London');
+  });
+});
+
+describe('validateAddress', () => {
+  test('accepts a complete address', () => {
+    expect(isAddressValid(validateAddress(address()))).toBe(true);
+    expect(validateAddress(address({zipCode: '10118-0110'}))).toEqual({});
+  });
+
+  test('requires names, street and city', () => {
+    const errors = validateAddress(
+      address({firstName: ' ', lastName: '', street: '', city: ''}),
+    );
+    expect(Object.keys(errors).sort()).toEqual([
+      'city',
+      'firstName',
+      'lastName',
+      'street',
+    ]);
+  });
+
+  test('checks region codes for countries that have them', () => {
+    expect(validateAddress(address({state: 'ZZ'})).state).toBe(
+      'Enter a valid state code',
+    );
+    expect(validateAddress(address({state: ''})).state).toBe(
+      'State is required',
+    );
+  });
+
+  test("checks the postal code against the country's format", () => {
+    expect(validateAddress(address({zipCode: '1011'})).zipCode).toBe(
+      'Enter a valid zip code, e.g. 10001',
+    );
+    const canada = address({
+      country: 'Canada',
+      state: 'ON',
+      zipCode: 'm5v 3l9',
+    });
+    expect(validateAddress(canada)).toEqual({});
+  });
+
+  test('does not require a region where the country has none', () => {
+    const london = address({
+      country: 'United Kingdom',
+      state: '',
+      zipCode: 'SW1A 1AA',
+    });
+    expect(validateAddress(london)).toEqual({});
+  });
+
+  test('rejects countries we do not deliver to', () => {
+    expect(validateAddress(address({country: 'Atlantis'})).country).toBe(
+      'We cannot deliver to Atlantis',
+    );
+    expect(validateAddress(address({country: ''})).country).toBe(
+      'Country is required',
+    );
+  });
+
+  test('rejects phone numbers that are too short', () => {
+    expect(validateAddress(address({phoneNumber: '12-34'})).phoneNumber).toBe(
+      'Enter a valid phone number',
+    );
+  });
+});
+
+describe('getAddressFormat', () => {
+  test('falls back to the default country for unknown countries', () => {
+    expect(getAddressFormat('Atlantis').postalCodeLabel).toBe('ZIP Code');
+    expect(getAddressFormat('canada').postalCodeLabel).toBe('Postal Code');
+  });
+});
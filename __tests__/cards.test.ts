@@ -0,0 +1,127 @@
+/**
+ * @format
+ */
+
+import {
+  detectCardBrand,
+  formatCardNumber,
+  isCardExpired,
+  luhnCheck,
+  parseExpiry,
+  validateCard,
+} from '../src/services/cards';
+
+const NOW = new Date(2026, 5, 15);
+
+const validCard = {
+  number: '4242 4242 4242 4242',
+  expiry: '12/29',
+  cvc: '123',
+  holderName: 'Jane Doe',
+};
+
+describe('luhnCheck', () => {
+  test('accepts valid test card numbers', () => {
+    expect(luhnCheck('4242424242424242')).toBe(true);
+    expect(luhnCheck('5555 5555 5555 4444')).toBe(true);
+    expect(luhnCheck('378282246310005')).toBe(true);
+  });
+
+  test('rejects a number with a mistyped digit', () => {
+    expect(luhnCheck('4242424242424241')).toBe(false);
+  });
+
+  test('rejects numbers too short to be a card', () => {
+    expect(luhnCheck('0')).toBe(false);
+    expect(luhnCheck('')).toBe(false);
+  });
+});
+
+describe('detectCardBrand', () => {
+  test.each([
+    ['4242424242424242', 'visa'],
+    ['5555555555554444', 'mastercard'],
+    ['2223003122003222', 'mastercard'],
+    ['378282246310005', 'amex'],
+    ['6011111111111117', 'discover'],
+    ['3056930009020004', 'dinersClub'],
+    ['3566002020360505', 'jcb'],
+    ['6200000000000005', 'unionPay'],
+  ])('detects %s as %s', (number, brand) => {
+    expect(detectCardBrand(number)?.brand).toBe(brand);
+  });
+
+  test('waits until the leading digits point to a single brand', () => {
+    expect(detectCardBrand('3')).toBeNull();
+    expect(detectCardBrand('37')?.brand).toBe('amex');
+  });
+
+  test('returns null for unaccepted or empty numbers', () => {
+    expect(detectCardBrand('9999')).toBeNull();
+    expect(detectCardBrand('')).toBeNull();
+  });
+});
+
+describe('formatCardNumber', () => {
+  test('groups digits the way the brand prints them', () => {
+    expect(formatCardNumber('378282246310005')).toBe('3782 822463 10005');
+    expect(formatCardNumber('4242424242424242')).toBe('4242 4242 4242 4242');
+  });
+
+  test('drops digits past the brand maximum', () => {
+    expect(formatCardNumber('3782822463100051234')).toBe('3782 822463 10005');
+  });
+});
+
+describe('parseExpiry and isCardExpired', () => {
+  test('parses two and four digit years', () => {
+    expect(parseExpiry('07/28')).toEqual({month: 7, year: 2028});
+    expect(parseExpiry('7/2028')).toEqual({month: 7, year: 2028});
+    expect(parseExpiry('13/28')).toBeNull();
+  });
+
+  test('cards are valid through the end of their expiry month', () => {
+    expect(isCardExpired(6, 2026, NOW)).toBe(false);
+    expect(isCardExpired(5, 2026, NOW)).toBe(true);
+  });
+});
+
+describe('validateCard', () => {
+  test('returns no errors for a valid card', () => {
+    expect(validateCard(validCard, NOW)).toEqual({});
+  });
+
+  test('reports a failed checksum on the number', () => {
+    const errors = validateCard(
+      {...validCard, number: '4242424242424241'},
+      NOW,
+    );
+    expect(errors.number).toBe('Check the card number for typos');
+  });
+
+  test('checks the number length for the brand', () => {
+    const errors = validateCard({...validCard, number: '37828224631'}, NOW);
+    expect(errors.number).toBe('American Express card numbers are 15 digits');
+  });
+
+  test('expects a four digit CVC on American Express', () => {
+    const errors = validateCard(
+      {...validCard, number: '378282246310005', cvc: '123'},
+      NOW,
+    );
+    expect(errors.cvc).toBe('CVC must be 4 digits');
+  });
+
+  test('rejects expired cards and missing fields', () => {
+    const errors = validateCard(
+      {number: '', expiry: '01/26', cvc: '', holderName: ' '},
+      NOW,
+    );
+    expect(errors).toEqual({
+      number: 'Card number is required',
+      expiry: 'This card has expired',
+      cvc: 'CVC is required',
+      holderName: 'Cardholder name is required',
+    });
+  });
+});
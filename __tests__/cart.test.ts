@@ -0,0 +1,121 @@
+/**
+ * @format
+ */
+
+import {
+  Cart,
+  CartItem,
+  calculateCartTotals,
+  mergeCarts,
+} from '../src/models/Cart';
+import {Product} from '../src/models/Product';
+
+const product = (id: string, price: number): Product => ({
+  id,
+  name: id,
+  description: '',
+  price,
+  currency: 'USD',
+  imageUrls: [],
+  category: 'Home',
+  brand: 'Brand',
+  variants: [],
+  inStock: true,
+  stockCount: 10,
+  createdAt: '2026-01-01T00:00:00.000Z',
+});
+
+const item = (
+  id: string,
+  productId: string,
+  quantity: number,
+  selectedVariants: Record<string, string> = {},
+  unitPrice = 10,
+): CartItem => ({
+  id,
+  productId,
+  product: product(productId, unitPrice),
+  quantity,
+  selectedVariants,
+  unitPrice,
+  addedAt: '2026-01-01T00:00:00.000Z',
+});
+
+const cart = (items: CartItem[], updatedAt: string): Cart => ({
+  id: 'cart-u1',
+  userId: 'u1',
+  items,
+  updatedAt,
+});
+
+const EARLIER = '2026-06-01T10:00:00.000Z';
+const LATER = '2026-06-01T11:00:00.000Z';
+
+describe('mergeCarts', () => {
+  test('adopts the server cart when the device cart is empty', () => {
+    const remote = cart([item('r1', 'shirt', 1)], EARLIER);
+    expect(mergeCarts(cart([], LATER), remote)).toEqual({
+      items: remote.items,
+      strategy: 'adopt_remote',
+      conflicts: 0,
+    });
+  });
+
+  test('keeps the device cart when the server cart is empty', () => {
+    const local = cart([item('l1', 'shirt', 1)], EARLIER);
+    expect(mergeCarts(local, cart([], LATER)).strategy).toBe('keep_local');
+  });
+
+  test('keeps lines that are only in one cart', () => {
+    const result = mergeCarts(
+      cart([item('l1', 'shirt', 1)], LATER),
+      cart([item('r1', 'mug', 2)], EARLIER),
+    );
+    expect(result.strategy).toBe('merge');
+    expect(result.conflicts).toBe(0);
+    expect(result.items.map(i => i.id).sort()).toEqual(['l1', 'r1']);
+  });
+
+  test('resolves a line in both carts in favour of the newer cart', () => {
+    const local = cart([item('l1', 'shirt', 1, {}, 20)], EARLIER);
+    const remote = cart([item('r1', 'shirt', 3, {}, 18)], LATER);
+    const result = mergeCarts(local, remote);
+    expect(result.conflicts).toBe(1);
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0]).toMatchObject({quantity: 3, unitPrice: 18});
+
+    const reversed = mergeCarts(
+      {...local, updatedAt: LATER},
+      {...remote, updatedAt: EARLIER},
+    );
+    expect(reversed.items[0]).toMatchObject({quantity: 1, unitPrice: 20});
+  });
+
+  test('treats different variants of a product as different lines', () => {
+    const result = mergeCarts(
+      cart([item('l1', 'shirt', 1, {size: 'M'})], LATER),
+      cart([item('r1', 'shirt', 1, {size: 'L'})], EARLIER),
+    );
+    expect(result.conflicts).toBe(0);
+    expect(result.items).toHaveLength(2);
+  });
+
+  test('keeps the device cart when both were updated at the same time', () => {
+    const result = mergeCarts(
+      cart([item('l1', 'shirt', 2)], EARLIER),
+      cart([item('r1', 'shirt', 5)], EARLIER),
+    );
+    expect(result.items[0].id).toBe('l1');
+  });
+});
+
+describe('calculateCartTotals', () => {
+  test('adds up units and line subtotals', () => {
+    expect(
+      calculateCartTotals([
+        item('a', 'shirt', 2, {}, 15),
+        item('b', 'mug', 1, {}, 8.5),
+      ]),
+    ).toEqual({totalItems: 3, subtotal: 38.5});
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * @format
+ */
+
+import {
+  convertAmount,
+  formatMoney,
+  formatOrderAmount,
+  formatPrice,
+  getChargeAmount,
+  getExchangeRate,
+  isSupportedCurrency,
+} from '../src/services/currency';
+import {Order} from '../src/models/Order';
+
+const order = (overrides: Partial<Order>): Order =>
+  ({
+    id: 'order-1',
+    total: 100,
+    currency: 'EUR',
+    exchangeRate: 0.9,
+    ...overrides,
+  } as Order);
+
+describe('exchange rates', () => {
+  test('converts between any two supported currencies', () => {
+    expect(getExchangeRate('USD', 'USD')).toBe(1);
+    expect(getExchangeRate('EUR', 'GBP')).toBeCloseTo(0.79 / 0.92);
+    expect(isSupportedCurrency('jpy')).toBe(true);
+    expect(isSupportedCurrency('XYZ')).toBe(false);
+  });
+
+  test("rounds to the target currency's smallest unit", () => {
+    expect(convertAmount(10.005, 'USD', 'EUR')).toBe(9.2);
+    expect(convertAmount(19.99, 'USD', 'JPY')).toBe(
+      Math.round(19.99 * getExchangeRate('USD', 'JPY')),
+    );
+  });
+
+  test('treats unknown currencies as the base currency', () => {
+    expect(convertAmount(12.5, 'USD', 'XYZ')).toBe(12.5);
+  });
+});
+
+describe('formatting', () => {
+  test("formats amounts with the currency's own conventions", () => {
+    expect(formatMoney(1234.5, 'USD')).toBe('$1,234.50');
+    expect(formatMoney(1234, 'JPY')).not.toContain('.');
+  });
+
+  test('converts catalog prices into the display currency', () => {
+    expect(formatPrice(100, 'USD')).toBe('$100.00');
+    expect(formatPrice(100, 'GBP')).toBe(formatMoney(79, 'GBP'));
+  });
+});
+
+describe('orders', () => {
+  test('are shown and charged at the rate locked in when placed', () => {
+    const placed = order({total: 100, exchangeRate: 0.9});
+    expect(getChargeAmount(placed)).toBe(90);
+    expect(formatOrderAmount(100, placed)).toBe(formatMoney(90, 'EUR'));
+  });
+
+  test('without a currency are in the base currency', () => {
+    const legacy = order({currency: undefined, exchangeRate: undefined});
+    expect(getChargeAmount(legacy)).toBe(100);
+    expect(formatOrderAmount(25, legacy)).toBe('$25.00');
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * @format
+ */
+
+import {
+  PromotionError,
+  assertPromotionApplies,
+  calculateDiscounts,
+  sumDiscounts,
+  sumLineDiscounts,
+} from '../src/services/discounts';
+import {DiscountableLine, Promotion} from '../src/models/Promotion';
+
+const promotion = (overrides: Partial<Promotion>): Promotion => ({
+  code: 'TEST',
+  description: 'Test promotion',
+  type: 'percentage',
+  value: 10,
+  stackable: true,
+  ...overrides,
+});
+
+const WELCOME10 = promotion({code: 'WELCOME10', stackable: false});
+const SAVE15 = promotion({
+  code: 'SAVE15',
+  type: 'fixed_amount',
+  value: 15,
+  minSubtotal: 100,
+});
+const FREESHIP = promotion({
+  code: 'FREESHIP',
+  type: 'free_shipping',
+  value: 0,
+  minSubtotal: 50,
+});
+const TECH20 = promotion({code: 'TECH20', value: 20, category: 'Electronics'});
+const SPORTSBOGO = promotion({
+  code: 'SPORTSBOGO',
+  type: 'buy_x_get_y',
+  value: 0,
+  category: 'Sports',
+  buyQuantity: 1,
+  getQuantity: 1,
+});
+
+const lines: DiscountableLine[] = [
+  {id: 'headphones', category: 'Electronics', unitPrice: 200, quantity: 1},
+  {id: 'sneakers', category: 'Footwear', unitPrice: 120, quantity: 1},
+  {id: 'balls', category: 'Sports', unitPrice: 30, quantity: 3},
+];
+
+const NOW = new Date('2026-06-15T00:00:00.000Z').getTime();
+
+const failureOf = (
+  candidate: Promotion,
+  cart: DiscountableLine[],
+  applied: Promotion[] = [],
+) => {
+  try {
+    assertPromotionApplies(candidate, cart, applied, 'USD', NOW);
+  } catch (error) {
+    return (error as PromotionError).reason;
+  }
+  return null;
+};
+
+describe('assertPromotionApplies', () => {
+  test('accepts a promotion that applies to the cart', () => {
+    expect(failureOf(SAVE15, lines)).toBeNull();
+  });
+
+  test('rejects a subtotal below the minimum', () => {
+    const small = [{...lines[1], unitPrice: 40}];
+    expect(failureOf(SAVE15, small)).toBe('minimum_not_met');
+    expect(() => assertPromotionApplies(SAVE15, small, [], 'USD', NOW)).toThrow(
+      'SAVE15 requires a subtotal of at least $100.00',
+    );
+  });
+
+  test('rejects a category promotion without items in the category', () => {
+    expect(failureOf(TECH20, [lines[1]])).toBe('no_eligible_items');
+  });
+
+  test('rejects expired and repeated codes', () => {
+    const expired = promotion({expiresAt: '2024-06-01T00:00:00.000Z'});
+    expect(failureOf(expired, lines)).toBe('expired');
+    expect(failureOf(TECH20, lines, [TECH20])).toBe('already_applied');
+  });
+
+  test('stacks only stackable promotions', () => {
+    expect(failureOf(TECH20, lines, [SAVE15])).toBeNull();
+    expect(failureOf(WELCOME10, lines, [SAVE15])).toBe('not_stackable');
+    expect(failureOf(SAVE15, lines, [WELCOME10])).toBe('not_stackable');
+  });
+
+  test('allows one free shipping promotion per order', () => {
+    const second = promotion({code: 'SHIPFREE', type: 'free_shipping'});
+    expect(failureOf(FREESHIP, lines, [TECH20])).toBeNull();
+    expect(failureOf(second, lines, [FREESHIP])).toBe('not_stackable');
+  });
+});
+
+describe('calculateDiscounts', () => {
+  test('applies item discounts before order-level ones', () => {
+    const discounts = calculateDiscounts(
+      [FREESHIP, SAVE15, TECH20, SPORTSBOGO],
+      lines,
+      9.99,
+      NOW,
+    );
+    expect(discounts.map(d => [d.code, d.amount])).toEqual([
+      ['SPORTSBOGO', 30],
+      ['TECH20', 40],
+      ['SAVE15', 15],
+      ['FREESHIP', 9.99],
+    ]);
+    expect(sumDiscounts(discounts)).toBe(94.99);
+  });
+
+  test('allocates a category discount only to lines in the category', () => {
+    const [discount] = calculateDiscounts([TECH20], lines, 0, NOW);
+    expect(discount.allocations).toEqual([{lineId: 'headphones', amount: 40}]);
+    expect(sumLineDiscounts([discount], 'sneakers')).toBe(0);
+  });
+
+  test('allocates free units to the line they came from', () => {
+    const [discount] = calculateDiscounts([SPORTSBOGO], lines, 0, NOW);
+    expect(discount.allocations).toEqual([{lineId: 'balls', amount: 30}]);
+  });
+
+  test('splits an order discount so the shares add up exactly', () => {
+    const [discount] = calculateDiscounts(
+      [promotion({type: 'fixed_amount', value: 10})],
+      [
+        {id: 'a', category: 'Home', unitPrice: 10, quantity: 1},
+        {id: 'b', category: 'Home', unitPrice: 10, quantity: 1},
+        {id: 'c', category: 'Home', unitPrice: 10, quantity: 1},
+      ],
+      0,
+      NOW,
+    );
+    expect(discount.allocations).toEqual([
+      {lineId: 'a', amount: 3.33},
+      {lineId: 'b', amount: 3.33},
+      {lineId: 'c', amount: 3.34},
+    ]);
+  });
+
+  test('never discounts items below zero', () => {
+    const discounts = calculateDiscounts(
+      [promotion({type: 'fixed_amount', value: 500})],
+      lines,
+      0,
+      NOW,
+    );
+    expect(sumDiscounts(discounts)).toBe(410);
+  });
+
+  test('leaves out promotions that no longer apply', () => {
+    const shrunk = [{...lines[1], unitPrice: 40}];
+    const discounts = calculateDiscounts([SAVE15, TECH20], shrunk, 0, NOW);
+    expect(discounts).toEqual([]);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * @format
+ */
+
+import {MockInventory} from '../src/services/mockInventory';
+import {ApiError} from '../src/services/transport';
+import {Product, ProductVariant} from '../src/models/Product';
+
+const size = (value: string, inStock = true): ProductVariant => ({
+  id: `size-${value}`,
+  type: 'size',
+  name: 'Size',
+  value,
+  priceModifier: 0,
+  inStock,
+});
+
+// 12 units over three sizes, one of them sold out
+const tee: Product = {
+  id: 'tee',
+  name: 'Tee',
+  description: '',
+  price: 20,
+  currency: 'USD',
+  imageUrls: [],
+  category: 'Clothing',
+  brand: 'Brand',
+  variants: [size('S'), size('M'), size('L', false)],
+  inStock: true,
+  stockCount: 12,
+  createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+const products: Record<string, Product> = {
+  tee,
+  discontinued: {...tee, id: 'discontinued', inStock: false},
+};
+
+const small = (quantity: number) => ({
+  productId: 'tee',
+  selectedVariants: {size: 'S'},
+  quantity,
+});
+
+const NOW = new Date('2026-06-01T12:00:00.000Z').getTime();
+const RESERVATION_TTL_MS = 15 * 60 * 1000;
+
+let inventory: MockInventory;
+
+const available = (excludeReservationId?: string) =>
+  inventory.getStockLevel(
+    {productId: 'tee', selectedVariants: {size: 'S'}},
+    excludeReservationId,
+  ).available;
+
+const errorOf = (run: () => unknown) => {
+  try {
+    run();
+  } catch (error) {
+    return error as ApiError;
+  }
+  return null;
+};
+
+beforeEach(() => {
+  jest.useFakeTimers({now: NOW});
+  inventory = new MockInventory(id => products[id]);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('stock levels', () => {
+  test('split the stock evenly across variant combinations', () => {
+    expect(available()).toBe(4);
+  });
+
+  test('are zero for a sold-out variant or product', () => {
+    const level = (productId: string, value: string) =>
+      inventory.getStockLevel({productId, selectedVariants: {size: value}})
+        .available;
+    expect(level('tee', 'L')).toBe(0);
+    expect(level('discontinued', 'S')).toBe(0);
+  });
+});
+
+describe('reserve', () => {
+  test('holds units back from other shoppers', () => {
+    const reservation = inventory.reserve([small(3)]);
+    expect(available()).toBe(1);
+    expect(reservation.expiresAt).toBe(
+      new Date(NOW + RESERVATION_TTL_MS).toISOString(),
+    );
+  });
+
+  test("counts the holder's own units as available to them", () => {
+    const {id} = inventory.reserve([small(4)]);
+    expect(available()).toBe(0);
+    expect(available(id)).toBe(4);
+  });
+
+  test('rejects more units than are available', () => {
+    expect(errorOf(() => inventory.reserve([small(5)]))).toMatchObject({
+      statusCode: 409,
+      message: 'Only 4 of Tee left in stock',
+    });
+    inventory.reserve([small(4)]);
+    expect(errorOf(() => inventory.reserve([small(1)]))?.message).toBe(
+      'Tee is sold out',
+    );
+  });
+
+  test('frees the units when released', () => {
+    const {id} = inventory.reserve([small(4)]);
+    inventory.release(id);
+    expect(available()).toBe(4);
+  });
+
+  test('frees the units when it expires', () => {
+    inventory.reserve([small(4)]);
+    jest.setSystemTime(NOW + RESERVATION_TTL_MS - 1);
+    expect(available()).toBe(0);
+    jest.setSystemTime(NOW + RESERVATION_TTL_MS);
+    expect(available()).toBe(4);
+  });
+});
+
+describe('commit', () => {
+  test('takes the reserved units and ends the reservation', () => {
+    const {id} = inventory.reserve([small(4)]);
+    inventory.commit([small(4)], id);
+    expect(available()).toBe(0);
+    expect(available(id)).toBe(0);
+    expect(errorOf(() => inventory.reserve([small(1)]))?.statusCode).toBe(409);
+  });
+
+  test('without a reservation only takes unreserved units', () => {
+    inventory.reserve([small(3)]);
+    expect(errorOf(() => inventory.commit([small(2)]))?.message).toBe(
+      'Only 1 of Tee left in stock',
+    );
+    inventory.commit([small(1)]);
+    expect(available()).toBe(0);
+  });
+
+  test('with an expired reservation needs enough unreserved units', () => {
+    const {id} = inventory.reserve([small(3)]);
+    jest.setSystemTime(NOW + RESERVATION_TTL_MS);
+    inventory.reserve([small(2)]);
+    expect(errorOf(() => inventory.commit([small(3)], id))?.message).toBe(
+      'Only 2 of Tee left in stock',
+    );
+    inventory.commit([small(2)], id);
+    expect(available()).toBe(0);
+  });
+});
+
+describe('restock', () => {
+  test('puts units back on the shelf', () => {
+    inventory.commit([small(3)]);
+    inventory.restock([small(3)]);
+    expect(available()).toBe(4);
+  });
+});
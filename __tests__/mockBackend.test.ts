@@ -0,0 +1,214 @@
+/**
+ * @format
+ */
+
+import {mockBackend} from '../src/services/mockBackend';
+import {
+  mockAddresses,
+  mockPaymentMethods,
+  mockPromotions,
+} from '../src/services/mockData';
+import {calculateDiscounts, sumDiscounts} from '../src/services/discounts';
+import {calculateTax} from '../src/services/tax';
+import {calculateUnitPrice} from '../src/services/pricing';
+import {ApiError} from '../src/services/transport';
+import {OrderItem, OrderRequest} from '../src/models/Order';
+import {roundToCents} from '../src/utils';
+import {PAYMENT_PROCESSING_MS} from '../src/config/payment.config';
+import {FULFILLMENT_CONFIG} from '../src/config/fulfillment.config';
+
+const address = mockAddresses[0];
+
+const headphones = (): OrderItem => {
+  const product = mockBackend.getProductById('2');
+  const selectedVariants = {color: 'Black'};
+  return {
+    id: 'line-headphones',
+    productId: product.id,
+    productName: product.name,
+    quantity: 1,
+    unitPrice: calculateUnitPrice(product, selectedVariants),
+    selectedVariants,
+  };
+};
+
+// An order request priced the way the checkout screen prices it
+const orderRequest = (codes: string[] = []): OrderRequest => {
+  const items = [headphones()];
+  const lines = items.map(item => ({
+    id: item.id,
+    category: mockBackend.getProductById(item.productId).category,
+    unitPrice: item.unitPrice,
+    quantity: item.quantity,
+  }));
+  const subtotal = items[0].unitPrice;
+  const shipping = mockBackend
+    .quoteShipping(address, items)
+    .find(method => method.id === 'ship1')!.cost;
+  const promotions = codes.map(
+    code => mockPromotions.find(promotion => promotion.code === code)!,
+  );
+  const discounts = calculateDiscounts(promotions, lines, shipping);
+  const discount = sumDiscounts(discounts);
+  const tax = calculateTax(address, lines, shipping, discounts).total;
+  return {
+    userId: 'u-test',
+    items,
+    shippingAddress: address,
+    billingAddress: address,
+    paymentMethod: mockPaymentMethods[0],
+    shippingMethodId: 'ship1',
+    subtotal,
+    shipping,
+    discount,
+    discounts,
+    tax,
+    total: roundToCents(subtotal - discount + tax + shipping),
+    currency: 'USD',
+  };
+};
+
+const statusOf = (run: () => unknown) => {
+  try {
+    run();
+  } catch (error) {
+    return (error as ApiError).statusCode;
+  }
+  return null;
+};
+
+describe('createOrder', () => {
+  test('applies promo codes that stack', () => {
+    const order = mockBackend.createOrder(orderRequest(['SAVE15', 'TECH20']));
+    expect(order.discounts?.map(line => line.code)).toEqual([
+      'TECH20',
+      'SAVE15',
+    ]);
+    expect(order.discount).toBe(55);
+  });
+
+  test('rejects a promo code entered twice', () => {
+    const request = orderRequest(['SAVE15', 'SAVE15']);
+    expect(statusOf(() => mockBackend.createOrder(request))).toBe(422);
+    expect(() => mockBackend.createOrder(request)).toThrow(
+      'SAVE15 has already been applied',
+    );
+  });
+
+  test('rejects a promo code that cannot be combined', () => {
+    [
+      ['WELCOME10', 'SAVE15'],
+      ['SAVE15', 'WELCOME10'],
+    ].forEach(codes => {
+      expect(() => mockBackend.createOrder(orderRequest(codes))).toThrow(
+        /cannot be combined with your other promotions/,
+      );
+    });
+  });
+});
+
+describe('cancelOrder', () => {
+  test("puts the order's units back in stock", () => {
+    const stock = () =>
+      mockBackend.getStockLevel({
+        productId: '2',
+        selectedVariants: {color: 'Black'},
+      }).available;
+    const before = stock();
+    const order = mockBackend.createOrder(orderRequest());
+    expect(stock()).toBe(before - 1);
+
+    mockBackend.cancelOrder(order.id, 'Changed my mind');
+    expect(stock()).toBe(before);
+  });
+});
+
+describe('order fulfillment', () => {
+  const {processingMs, inTransitMs} = FULFILLMENT_CONFIG;
+  const iso = (time: number) => new Date(time).toISOString();
+  let placedAt = new Date('2026-06-01T12:00:00.000Z').getTime();
+
+  // Places an order and pays for it with a card that settles normally
+  const placePaidOrder = () => {
+    const order = mockBackend.createOrder(orderRequest());
+    mockBackend.processPayment({
+      orderId: order.id,
+      amount: order.total,
+      currency: 'USD',
+      paymentToken: mockPaymentMethods[0].token,
+      billingAddress: address,
+    });
+    return order.id;
+  };
+
+  beforeEach(() => {
+    // A day apart, so every test's order gets its own id
+    placedAt += 24 * 60 * 60 * 1000;
+    jest.useFakeTimers({now: placedAt});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('moves an order one step at a time as each comes due', () => {
+    const orderId = placePaidOrder();
+    const paidAt = placedAt + PAYMENT_PROCESSING_MS;
+
+    jest.setSystemTime(paidAt - 1);
+    expect(mockBackend.getOrder(orderId).status).toBe('pending');
+    jest.setSystemTime(paidAt);
+    expect(mockBackend.getOrder(orderId).status).toBe('processing');
+    jest.setSystemTime(paidAt + processingMs);
+    const shipped = mockBackend.getOrder(orderId);
+    expect(shipped.status).toBe('shipped');
+    expect(shipped.trackingNumber).toMatch(/^TRK[A-Z0-9]{12}$/);
+  });
+
+  test('catches up on every step that came due since it was last read', () => {
+    const orderId = placePaidOrder();
+    const paidAt = placedAt + PAYMENT_PROCESSING_MS;
+    const shippedAt = paidAt + processingMs;
+    const deliveredAt = shippedAt + inTransitMs;
+
+    jest.setSystemTime(deliveredAt + 60 * 1000);
+    const order = mockBackend.getOrder(orderId);
+    expect(order.status).toBe('delivered');
+    expect(order.trackingNumber).toMatch(/^TRK[A-Z0-9]{12}$/);
+    expect(order.estimatedDelivery).toBe(iso(deliveredAt));
+    expect(order.updatedAt).toBe(iso(deliveredAt));
+    expect(order.statusHistory).toEqual([
+      {from: 'pending', to: 'processing', changedAt: iso(paidAt)},
+      {from: 'processing', to: 'shipped', changedAt: iso(shippedAt)},
+      {from: 'shipped', to: 'delivered', changedAt: iso(deliveredAt)},
+    ]);
+  });
+
+  test('rejects status changes the order cannot make', () => {
+    const orderId = placePaidOrder();
+    expect(
+      statusOf(() => mockBackend.updateOrderStatus(orderId, 'shipped')),
+    ).toBe(409);
+    expect(statusOf(() => mockBackend.refundOrder(orderId, 'Damaged'))).toBe(
+      409,
+    );
+
+    jest.setSystemTime(
+      placedAt + PAYMENT_PROCESSING_MS + processingMs + inTransitMs,
+    );
+    expect(() => mockBackend.updateOrderStatus(orderId, 'processing')).toThrow(
+      'Cannot change order from delivered to processing',
+    );
+    expect(() => mockBackend.cancelOrder(orderId, 'Too late')).toThrow(
+      'A delivered order cannot be cancelled',
+    );
+    const refunded = mockBackend.refundOrder(orderId, 'Damaged');
+    expect(refunded.status).toBe('refunded');
+    expect(refunded.statusHistory?.map(change => change.to)).toEqual([
+      'processing',
+      'shipped',
+      'delivered',
+      'refunded',
+    ]);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * @format
+ */
+
+import {
+  ORDER_STATUS_TRANSITIONS,
+  Order,
+  OrderStatus,
+  canCancelOrder,
+  canRefundOrder,
+  canTransitionOrder,
+} from '../src/models/Order';
+
+const STATUSES = Object.keys(ORDER_STATUS_TRANSITIONS) as OrderStatus[];
+
+const order = (status: OrderStatus) => ({status} as Order);
+
+describe('canTransitionOrder', () => {
+  test('follows an order from payment to refund', () => {
+    expect(canTransitionOrder('pending', 'processing')).toBe(true);
+    expect(canTransitionOrder('processing', 'shipped')).toBe(true);
+    expect(canTransitionOrder('shipped', 'delivered')).toBe(true);
+    expect(canTransitionOrder('delivered', 'refunded')).toBe(true);
+  });
+
+  test('allows cancelling only before the order ships', () => {
+    expect(
+      STATUSES.filter(status => canTransitionOrder(status, 'cancelled')),
+    ).toEqual(['pending', 'processing']);
+  });
+
+  test('rejects skipping or going back a step', () => {
+    expect(canTransitionOrder('pending', 'shipped')).toBe(false);
+    expect(canTransitionOrder('processing', 'delivered')).toBe(false);
+    expect(canTransitionOrder('shipped', 'processing')).toBe(false);
+    expect(canTransitionOrder('delivered', 'shipped')).toBe(false);
+  });
+
+  test('treats cancelled and refunded as final', () => {
+    STATUSES.forEach(status => {
+      expect(canTransitionOrder('cancelled', status)).toBe(false);
+      expect(canTransitionOrder('refunded', status)).toBe(false);
+    });
+  });
+});
+
+describe('order actions', () => {
+  test('match the transitions the order allows', () => {
+    STATUSES.forEach(status => {
+      expect(canCancelOrder(order(status))).toBe(
+        canTransitionOrder(status, 'cancelled'),
+      );
+      expect(canRefundOrder(order(status))).toBe(
+        canTransitionOrder(status, 'refunded'),
+      );
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * @format
+ */
+
+import {
+  VariantSelectionError,
+  assertPurchasable,
+  calculateUnitPrice,
+  resolveSelectedVariants,
+} from '../src/services/pricing';
+import {Product, ProductVariant} from '../src/models/Product';
+
+const variant = (overrides: Partial<ProductVariant>): ProductVariant => ({
+  id: 'variant',
+  type: 'size',
+  name: 'Size',
+  value: 'M',
+  priceModifier: 0,
+  inStock: true,
+  ...overrides,
+});
+
+const jacket: Product = {
+  id: 'jacket',
+  name: 'Rain Jacket',
+  description: '',
+  price: 89.99,
+  currency: 'USD',
+  imageUrls: [],
+  category: 'Clothing',
+  brand: 'Brand',
+  variants: [
+    variant({id: 'm', value: 'M'}),
+    variant({id: 'xl', value: 'XL', priceModifier: 5.004}),
+    variant({id: 'xxl', value: 'XXL', priceModifier: 10, inStock: false}),
+    variant({
+      id: 'red',
+      type: 'color',
+      name: 'Color',
+      value: 'Red',
+      priceModifier: 2.5,
+    }),
+  ],
+  inStock: true,
+  stockCount: 10,
+  createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+const reasonOf = (run: () => unknown) => {
+  try {
+    run();
+  } catch (error) {
+    return (error as VariantSelectionError).reason;
+  }
+  return null;
+};
+
+describe('calculateUnitPrice', () => {
+  test('adds every selected variant modifier to the base price', () => {
+    expect(calculateUnitPrice(jacket, {})).toBe(89.99);
+    expect(calculateUnitPrice(jacket, {size: 'M', color: 'Red'})).toBe(92.49);
+  });
+
+  test('rounds the result to cents', () => {
+    expect(calculateUnitPrice(jacket, {size: 'XL'})).toBe(94.99);
+  });
+
+  test('rejects values the product does not come in', () => {
+    expect(reasonOf(() => calculateUnitPrice(jacket, {size: 'S'}))).toBe(
+      'unknown_variant',
+    );
+    expect(() => resolveSelectedVariants(jacket, {color: 'Blue'})).toThrow(
+      'Rain Jacket has no color "Blue"',
+    );
+  });
+});
+
+describe('assertPurchasable', () => {
+  test('accepts an in-stock selection', () => {
+    expect(reasonOf(() => assertPurchasable(jacket, {size: 'M'}))).toBeNull();
+  });
+
+  test('rejects an out-of-stock variant', () => {
+    expect(() => assertPurchasable(jacket, {size: 'XXL'})).toThrow(
+      'Rain Jacket is out of stock in size XXL',
+    );
+  });
+
+  test('rejects an out-of-stock product whatever the selection', () => {
+    const soldOut = {...jacket, inStock: false};
+    expect(reasonOf(() => assertPurchasable(soldOut, {size: 'M'}))).toBe(
+      'product_out_of_stock',
+    );
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * @format
+ */
+
+import {
+  NO_RETRY,
+  RetryPolicy,
+  getBackoffDelay,
+  isRetryableError,
+  resolveRetryPolicy,
+} from '../src/services/retryPolicy';
+import {ApiError} from '../src/services/transport';
+import {randomService} from '../src/services/random';
+
+const policy: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 3000,
+  jitter: 0.5,
+  deadlineMs: 20000,
+  retryableStatusCodes: [503],
+  retryNetworkErrors: true,
+};
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('resolveRetryPolicy', () => {
+  test('retries catalog and account reads', () => {
+    expect(resolveRetryPolicy('GET', '/products/123').maxAttempts).toBe(4);
+    expect(resolveRetryPolicy('GET', '/orders?userId=u1').maxAttempts).toBe(3);
+  });
+
+  test('never retries writes without an idempotency key', () => {
+    expect(resolveRetryPolicy('POST', '/orders')).toBe(NO_RETRY);
+    expect(resolveRetryPolicy('POST', '/payments/process')).toBe(NO_RETRY);
+  });
+
+  test('retries any write that carries an idempotency key', () => {
+    const retried = resolveRetryPolicy('POST', '/payments/process', 'key-1');
+    expect(retried.maxAttempts).toBe(3);
+    expect(retried.retryableStatusCodes).not.toContain(500);
+  });
+
+  test('matches the method as well as the endpoint', () => {
+    expect(resolveRetryPolicy('PUT', '/cart').maxAttempts).toBe(3);
+    expect(resolveRetryPolicy('DELETE', '/cart')).toBe(NO_RETRY);
+  });
+});
+
+describe('isRetryableError', () => {
+  test('retries only the listed status codes', () => {
+    expect(isRetryableError(new ApiError('Unavailable', 503), policy)).toBe(
+      true,
+    );
+    expect(isRetryableError(new ApiError('Not found', 404), policy)).toBe(
+      false,
+    );
+  });
+
+  test('retries network errors when the policy allows it', () => {
+    const timeout = new Error('Request timed out');
+    expect(isRetryableError(timeout, policy)).toBe(true);
+    expect(isRetryableError(timeout, NO_RETRY)).toBe(false);
+  });
+});
+
+describe('getBackoffDelay', () => {
+  test('doubles the delay after each attempt up to the cap', () => {
+    jest.spyOn(randomService, 'next').mockReturnValue(1);
+    expect([1, 2, 3, 4, 5].map(n => getBackoffDelay(n, policy))).toEqual([
+      500, 1000, 2000, 3000, 3000,
+    ]);
+  });
+
+  test('randomizes the jittered fraction of the delay', () => {
+    jest.spyOn(randomService, 'next').mockReturnValue(0);
+    expect(getBackoffDelay(2, policy)).toBe(500);
+    expect(randomService.next).toHaveBeenCalledWith('retry_jitter');
+  });
+
+  test('is exact without jitter', () => {
+    expect(getBackoffDelay(3, {...policy, jitter: 0})).toBe(2000);
+  });
+});
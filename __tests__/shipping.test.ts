@@ -0,0 +1,146 @@
+/**
+ * @format
+ */
+
+import {
+  addBusinessDays,
+  buildParcel,
+  quoteShippingMethods,
+  resolveShippingZone,
+} from '../src/services/shipping';
+import {mockShippingMethods} from '../src/services/mockData';
+import {Product} from '../src/models/Product';
+
+const product = (overrides: Partial<Product>): Product => ({
+  id: 'product',
+  name: 'Product',
+  description: '',
+  price: 10,
+  currency: 'USD',
+  imageUrls: [],
+  category: 'Home',
+  brand: 'Brand',
+  variants: [],
+  inStock: true,
+  stockCount: 10,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+// Light for its size: 1000 cubic inches bills as about 3.3 kg
+const pillow = product({
+  weight: 1,
+  dimensions: {width: 10, height: 10, depth: 10},
+});
+// Heavy for its size
+const dumbbell = product({
+  weight: 6,
+  dimensions: {width: 8, height: 4, depth: 4},
+});
+const rug = product({
+  weight: 4,
+  dimensions: {width: 60, height: 4, depth: 4},
+});
+
+const NEW_YORK = {country: 'United States', state: 'NY', zipCode: '10001'};
+const HAWAII = {country: 'United States', state: 'HI', zipCode: '96813'};
+
+const quote = (
+  lines: {product: Product; quantity: number}[],
+  destination = NEW_YORK,
+) =>
+  quoteShippingMethods(
+    mockShippingMethods,
+    buildParcel(lines),
+    destination,
+    new Date(2026, 5, 15).getTime(),
+  );
+
+describe('buildParcel', () => {
+  test('bills bulky parcels by their dimensional weight', () => {
+    const parcel = buildParcel([{product: pillow, quantity: 1}]);
+    expect(parcel.weightKg).toBe(1);
+    expect(parcel.volumeIn3).toBe(1000);
+    expect(parcel.billableWeightKg).toBeCloseTo(1000 / 305);
+  });
+
+  test('bills dense parcels by their actual weight', () => {
+    const parcel = buildParcel([{product: dumbbell, quantity: 2}]);
+    expect(parcel.billableWeightKg).toBe(12);
+    expect(parcel.longestSideIn).toBe(8);
+  });
+
+  test('counts products without a weight or size as the default item', () => {
+    const parcel = buildParcel([{product: product({}), quantity: 2}]);
+    expect(parcel.weightKg).toBe(1);
+    expect(parcel.volumeIn3).toBe(640);
+  });
+});
+
+describe('resolveShippingZone', () => {
+  test('splits domestic, remote and international destinations', () => {
+    expect(resolveShippingZone(NEW_YORK)).toBe('domestic');
+    expect(resolveShippingZone(HAWAII)).toBe('remote');
+    expect(
+      resolveShippingZone({country: 'canada', state: 'ON', zipCode: 'M5V'}),
+    ).toBe('international');
+    expect(
+      resolveShippingZone({country: 'Brazil', state: 'SP', zipCode: '01000'}),
+    ).toBeNull();
+  });
+});
+
+describe('quoteShippingMethods', () => {
+  test('prices each started billable kilogram', () => {
+    const [standard, express] = quote([{product: pillow, quantity: 1}]);
+    expect(standard.cost).toBe(8.99);
+    expect(express.cost).toBe(17.99);
+    expect(standard.isAvailable).toBe(true);
+  });
+
+  test('rejects parcels over a method weight limit', () => {
+    const quotes = quote([{product: dumbbell, quantity: 1}]);
+    const free = quotes.find(method => method.id === 'ship4')!;
+    expect(free.isAvailable).toBe(false);
+    expect(free.unavailableReason).toBe(
+      'Your order is too heavy for this method',
+    );
+  });
+
+  test('rejects items longer than a method accepts', () => {
+    const quotes = quote([{product: rug, quantity: 1}]);
+    const overnight = quotes.find(method => method.id === 'ship3')!;
+    expect(overnight.unavailableReason).toBe(
+      'An item in your order is too large for this method',
+    );
+  });
+
+  test('offers only methods with a rate for the zone', () => {
+    const quotes = quote([{product: pillow, quantity: 1}], HAWAII);
+    expect(quotes.filter(method => method.isAvailable).map(m => m.id)).toEqual([
+      'ship1',
+      'ship2',
+    ]);
+    expect(
+      quotes.find(method => method.id === 'ship3')!.unavailableReason,
+    ).toBe('Not available to HI');
+  });
+
+  test('offers nothing outside every zone', () => {
+    const quotes = quote([{product: pillow, quantity: 1}], {
+      country: 'Brazil',
+      state: 'SP',
+      zipCode: '01000',
+    });
+    expect(quotes.every(method => !method.isAvailable)).toBe(true);
+    expect(quotes[0].unavailableReason).toBe('We do not ship to Brazil');
+  });
+});
+
+describe('addBusinessDays', () => {
+  test('skips weekends', () => {
+    const friday = new Date(2026, 5, 19).getTime();
+    expect(addBusinessDays(friday, 1).getDate()).toBe(22);
+    expect(addBusinessDays(friday, 5).getDate()).toBe(26);
+  });
+});
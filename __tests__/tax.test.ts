@@ -0,0 +1,101 @@
+/**
+ * @format
+ */
+
+import {calculateTax, resolveJurisdictions} from '../src/services/tax';
+import {calculateDiscounts} from '../src/services/discounts';
+import {DiscountableLine, Promotion} from '../src/models/Promotion';
+
+const NYC = {country: 'United States', state: 'NY', zipCode: '10001'};
+const ALBANY = {country: 'United States', state: 'NY', zipCode: '12207'};
+const OREGON = {country: 'United States', state: 'OR', zipCode: '97201'};
+
+const lines: DiscountableLine[] = [
+  {id: 'headphones', category: 'Electronics', unitPrice: 200, quantity: 1},
+  {id: 'sneakers', category: 'Footwear', unitPrice: 120, quantity: 1},
+];
+
+const TECH20: Promotion = {
+  code: 'TECH20',
+  description: '20% off electronics',
+  type: 'percentage',
+  value: 20,
+  category: 'Electronics',
+  stackable: true,
+};
+
+const FREESHIP: Promotion = {
+  code: 'FREESHIP',
+  description: 'Free shipping',
+  type: 'free_shipping',
+  value: 0,
+  stackable: true,
+};
+
+describe('resolveJurisdictions', () => {
+  test('matches the country, the state and local zip prefixes', () => {
+    expect(resolveJurisdictions(NYC).map(j => j.name)).toEqual([
+      'United States',
+      'New York',
+      'New York City',
+    ]);
+    expect(resolveJurisdictions(ALBANY).map(j => j.name)).toEqual([
+      'United States',
+      'New York',
+    ]);
+  });
+
+  test('compares country and state names case-insensitively', () => {
+    const address = {country: ' united states ', state: 'ny', zipCode: '12207'};
+    expect(resolveJurisdictions(address)).toHaveLength(2);
+  });
+});
+
+describe('calculateTax', () => {
+  test('adds up the rates of every matching jurisdiction', () => {
+    const tax = calculateTax(NYC, [lines[0]], 0);
+    expect(tax.lines[0].taxRate).toBeCloseTo(0.08875);
+    expect(tax.total).toBe(17.75);
+  });
+
+  test('does not tax categories exempt in the jurisdiction', () => {
+    const tax = calculateTax(NYC, lines, 0);
+    expect(tax.lines[1]).toEqual({
+      itemId: 'sneakers',
+      taxableAmount: 120,
+      taxRate: 0,
+      tax: 0,
+    });
+    expect(tax.total).toBe(17.75);
+  });
+
+  test('taxes a category that is only exempt elsewhere', () => {
+    const texas = {country: 'United States', state: 'TX', zipCode: '73301'};
+    expect(calculateTax(texas, [lines[1]], 0).total).toBe(7.5);
+  });
+
+  test('takes a category discount off only the lines it applied to', () => {
+    const discounts = calculateDiscounts([TECH20], lines, 0);
+    const tax = calculateTax(NYC, lines, 0, discounts);
+    expect(tax.lines.map(line => line.taxableAmount)).toEqual([160, 120]);
+    expect(tax.total).toBe(14.2);
+  });
+
+  test('taxes shipping where the state says so, less free shipping', () => {
+    expect(calculateTax(NYC, [], 10).shippingTax).toBe(0.89);
+    expect(calculateTax(OREGON, [], 10).shippingTax).toBe(0);
+
+    const freeShipping = calculateDiscounts([FREESHIP], lines, 10);
+    expect(calculateTax(NYC, lines, 10, freeShipping).shippingTax).toBe(0);
+  });
+
+  test('does not tax addresses outside every jurisdiction', () => {
+    const tax = calculateTax(
+      {country: 'Japan', state: 'Tokyo', zipCode: '100-0001'},
+      lines,
+      10,
+    );
+    expect(tax.jurisdictions).toEqual([]);
+    expect(tax.total).toBe(0);
+  });
+});
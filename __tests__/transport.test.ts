@@ -0,0 +1,94 @@
+/**
+ * @format
+ */
+
+import {ApiError, HttpTransport} from '../src/services/transport';
+
+const respond = (status: number, text: string) =>
+  jest.fn().mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    text: () => Promise.resolve(text),
+  });
+
+// Never settles on its own; rejects like fetch once the request is aborted
+const hang = jest.fn(
+  (_url: string, init: {signal: AbortSignal}) =>
+    new Promise((_, reject) => {
+      init.signal.addEventListener('abort', () => reject(new Error('Aborted')));
+    }),
+);
+
+const send = (request: object = {}) =>
+  new HttpTransport(15000).send({
+    url: 'http://localhost:3000/v1/orders',
+    method: 'GET',
+    ...request,
+  });
+
+const errorOf = async (run: Promise<unknown>) => {
+  try {
+    await run;
+  } catch (error) {
+    return error as ApiError;
+  }
+  return null;
+};
+
+const realFetch = globalThis.fetch;
+
+afterEach(() => {
+  jest.useRealTimers();
+  globalThis.fetch = realFetch;
+});
+
+describe('HttpTransport', () => {
+  test('parses a successful JSON response', async () => {
+    globalThis.fetch = respond(200, '[{"id":"order-1"}]');
+    expect(await send()).toEqual({
+      statusCode: 200,
+      data: [{id: 'order-1'}],
+      bytesReceived: 18,
+    });
+  });
+
+  test('uses the message and code from a JSON error body', async () => {
+    globalThis.fetch = respond(
+      402,
+      '{"error":"Your card has insufficient funds","code":"insufficient_funds"}',
+    );
+    const error = await errorOf(send());
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({
+      message: 'Your card has insufficient funds',
+      statusCode: 402,
+      code: 'insufficient_funds',
+    });
+  });
+
+  test('keeps the status code when the error body is not JSON', async () => {
+    globalThis.fetch = respond(502, '<html><body>Bad Gateway</body></html>');
+    const error = await errorOf(send());
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({
+      message: 'Request failed with status 502',
+      statusCode: 502,
+    });
+  });
+
+  test('cancels the request when the caller aborts it', async () => {
+    globalThis.fetch = hang as unknown as typeof fetch;
+    const controller = new AbortController();
+    const pending = errorOf(send({signal: controller.signal}));
+    controller.abort();
+    expect((await pending)?.message).toBe('Request was cancelled');
+  });
+
+  test('gives up at the deadline when it comes before the timeout', async () => {
+    jest.useFakeTimers();
+    globalThis.fetch = hang as unknown as typeof fetch;
+    const pending = errorOf(send({deadline: Date.now() + 2000}));
+    jest.advanceTimersByTime(2000);
+    expect((await pending)?.message).toBe('Request timed out after 2000ms');
+  });
+});
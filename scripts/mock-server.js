@@ -0,0 +1,211 @@
+#!/usr/bin/env node
+/* eslint-env node */
+/**
+ * mock-server.js
+ * Serves the in-memory mock backend (src/services/mockBackend.ts) over HTTP so
+ * the app can run with API_CONFIG.transport = 'http' and produce real network
+ * telemetry on a dev machine.
+ *
+ * Usage: npm run mock-server
+ *   PORT      port to listen on (default 3000)
+ *   BASE_PATH path prefix matching API_CONFIG.baseUrl (default /v1)
+ *   SEED      seed for generated values such as order numbers
+ */
+
+const http = require('http');
+const path = require('path');
+const babel = require('@babel/core');
+
+const PORT = parseInt(process.env.PORT || '3000', 10);
+const BASE_PATH = process.env.BASE_PATH || '/v1';
+const ROOT = path.resolve(__dirname, '..');
+
+// Compile the app's TypeScript sources on the fly with the project babel config
+require.extensions['.ts'] = (module, filename) => {
+  const {code} = babel.transformFileSync(filename, {
+    cwd: ROOT,
+    filename,
+  });
+  module._compile(code, filename);
+};
+
+const {mockBackend} = require('../src/services/mockBackend.ts');
+const {ApiError} = require('../src/services/transport.ts');
+const {randomService} = require('../src/services/random.ts');
+
+if (process.env.SEED) {
+  randomService.setSeed(parseInt(process.env.SEED, 10));
+}
+
+const readBody = req =>
+  new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => {
+      data += chunk;
+    });
+    req.on('end', () => {
+      try {
+        resolve(data.length > 0 ? JSON.parse(data) : {});
+      } catch {
+        reject(new ApiError('Malformed JSON body', 400));
+      }
+    });
+    req.on('error', reject);
+  });
+
+// Routes are matched in order; `:param` segments are passed to the handler
+const routes = [
+  ['GET', '/products', ({query}) =>
+    mockBackend.getProducts(query.get('category') || undefined)],
+  ['GET', '/products/search', ({query}) =>
+    mockBackend.searchProducts(query.get('q') || '')],
+  ['GET', '/products/featured', () => mockBackend.getFeaturedProducts()],
+  ['GET', '/products/new-arrivals', () => mockBackend.getNewArrivals()],
+  ['GET', '/products/:id', ({params}) => mockBackend.getProductById(params.id)],
+  ['GET', '/categories', () => mockBackend.getCategories()],
+  ['POST', '/auth/login', ({body}) => mockBackend.login(body.email)],
+  ['POST', '/auth/register', ({body}) =>
+    mockBackend.register(body.email, body.firstName, body.lastName)],
+  ['POST', '/auth/guest', () => mockBackend.guestLogin()],
+  ['GET', '/user/addresses', ({query}) =>
+    mockBackend.getAddresses(query.get('userId') || '')],
+  ['POST', '/user/addresses', ({body}) =>
+    mockBackend.addAddress(body.userId, body.address)],
+  ['PUT', '/user/addresses/:id', ({params, body}) =>
+    mockBackend.updateAddress(body.userId, params.id, body.address)],
+  ['DELETE', '/user/addresses/:id', ({params, query}) =>
+    mockBackend.deleteAddress(query.get('userId') || '', params.id)],
+  ['POST', '/user/addresses/:id/default', ({params, body}) =>
+    mockBackend.setDefaultAddress(body.userId, params.id)],
+  ['GET', '/user/payment-methods', ({query}) =>
+    mockBackend.getPaymentMethods(query.get('userId') || '')],
+  ['POST', '/user/payment-methods', ({body}) =>
+    mockBackend.savePaymentMethod(
+      body.userId,
+      body.paymentMethod,
+      body.makeDefault,
+    )],
+  ['DELETE', '/user/payment-methods/:id', ({params, query}) =>
+    mockBackend.deletePaymentMethod(query.get('userId') || '', params.id)],
+  ['POST', '/user/payment-methods/:id/default', ({params, body}) =>
+    mockBackend.setDefaultPaymentMethod(body.userId, params.id)],
+  ['GET', '/shipping/methods', () => mockBackend.getShippingMethods()],
+  ['POST', '/shipping/quotes', ({body}) =>
+    mockBackend.quoteShipping(body.destination, body.lines || [])],
+  ['GET', '/orders', ({query}) => mockBackend.getOrders(query.get('userId') || '')],
+  ['POST', '/orders', ({body, headers}) =>
+    mockBackend.createOrder(body, headers['idempotency-key'])],
+  ['GET', '/orders/:id', ({params}) => mockBackend.getOrder(params.id)],
+  ['PATCH', '/orders/:id', ({params, body}) =>
+    mockBackend.updateOrderStatus(params.id, body.status)],
+  ['POST', '/orders/:id/cancel', ({params, body}) =>
+    mockBackend.cancelOrder(params.id, body.reason)],
+  ['POST', '/orders/:id/refund', ({params, body}) =>
+    mockBackend.refundOrder(params.id, body.reason)],
+  ['GET', '/cart', ({query}) => mockBackend.getCart(query.get('userId') || '')],
+  ['PUT', '/cart', ({body}) => mockBackend.saveCart(body)],
+  ['GET', '/inventory/:productId', ({params, query}) => {
+    const {reservationId, ...selectedVariants} = Object.fromEntries(query);
+    return mockBackend.getStockLevel(
+      {productId: params.productId, selectedVariants},
+      reservationId,
+    );
+  }],
+  ['POST', '/inventory/reservations', ({body}) =>
+    mockBackend.reserveInventory(body.lines || [])],
+  ['DELETE', '/inventory/reservations/:id', ({params}) =>
+    mockBackend.releaseReservation(params.id)],
+  ['POST', '/promotions/validate', ({body}) =>
+    mockBackend.validatePromoCode(
+      body.code,
+      body.lines || [],
+      body.appliedCodes || [],
+      body.shippingCost || 0,
+      body.currency,
+    )],
+  ['POST', '/payments/process', ({body, headers}) =>
+    mockBackend.processPayment(body, headers['idempotency-key'])],
+  ['GET', '/payments/:id', ({params}) =>
+    mockBackend.getPaymentIntent(params.id)],
+  ['POST', '/payments/:id/challenge', ({params, body, headers}) =>
+    mockBackend.completePaymentChallenge(
+      params.id,
+      body.outcome,
+      headers['idempotency-key'],
+    )],
+];
+
+const matchRoute = (method, pathname) => {
+  const segments = pathname.split('/').filter(Boolean);
+  for (const [routeMethod, pattern, handler] of routes) {
+    if (routeMethod !== method) {
+      continue;
+    }
+    const patternSegments = pattern.split('/').filter(Boolean);
+    if (patternSegments.length !== segments.length) {
+      continue;
+    }
+    const params = {};
+    const matched = patternSegments.every((segment, index) => {
+      if (segment.startsWith(':')) {
+        params[segment.slice(1)] = decodeURIComponent(segments[index]);
+        return true;
+      }
+      return segment === segments[index];
+    });
+    if (matched) {
+      return {handler, params};
+    }
+  }
+  return null;
+};
+
+const send = (res, statusCode, payload) => {
+  const body = JSON.stringify(payload);
+  res.writeHead(statusCode, {
+    'Content-Type': 'application/json',
+    'Content-Length': Buffer.byteLength(body),
+  });
+  res.end(body);
+};
+
+const server = http.createServer(async (req, res) => {
+  const startTime = Date.now();
+  const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+  let statusCode = 200;
+
+  try {
+    if (!url.pathname.startsWith(BASE_PATH)) {
+      throw new ApiError('Not found', 404);
+    }
+    const route = matchRoute(req.method, url.pathname.slice(BASE_PATH.length));
+    if (!route) {
+      throw new ApiError(`No route for ${req.method} ${url.pathname}`, 404);
+    }
+
+    const body = req.method === 'GET' ? {} : await readBody(req);
+    const result = await route.handler({
+      params: route.params,
+      query: url.searchParams,
+      headers: req.headers,
+      body,
+    });
+    send(res, statusCode, result);
+  } catch (error) {
+    statusCode = error instanceof ApiError ? error.statusCode : 500;
+    send(res, statusCode, {
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  } finally {
+    console.log(
+      `${req.method} ${url.pathname}${url.search} ${statusCode} ${
+        Date.now() - startTime
+      }ms`,
+    );
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock API server listening on http://localhost:${PORT}${BASE_PATH}`);
+  console.log(`Random seed: ${randomService.getSeed()}`);
+});
@@ -0,0 +1,190 @@
+import React from 'react';
+import {View, Text, TouchableOpacity, StyleSheet} from 'react-native';
+import {AddressInput, AddressType} from '../models/Address';
+import {
+  AddressValidationErrors,
+  SUPPORTED_COUNTRIES,
+  getAddressFormat,
+} from '../services/addressValidation';
+import {Input} from './Input';
+
+interface AddressFormProps {
+  value: AddressInput;
+  errors: AddressValidationErrors;
+  onChange: (value: AddressInput) => void;
+  showAddressType?: boolean;
+}
+
+const ADDRESS_TYPES: {type: AddressType; label: string}[] = [
+  {type: 'shipping', label: 'Shipping'},
+  {type: 'billing', label: 'Billing'},
+  {type: 'both', label: 'Both'},
+];
+
+export const AddressForm: React.FC<AddressFormProps> = ({
+  value,
+  errors,
+  onChange,
+  showAddressType = false,
+}) => {
+  const format = getAddressFormat(value.country);
+  const regionLabel = format.requiresRegion
+    ? format.regionLabel
+    : `${format.regionLabel} (optional)`;
+
+  const update = (changes: Partial<AddressInput>) =>
+    onChange({...value, ...changes});
+
+  const renderChip = (
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+  ) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}>
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      <Text style={styles.label}>Country</Text>
+      <View style={styles.chips}>
+        {SUPPORTED_COUNTRIES.map(country =>
+          renderChip(country, value.country === country, () =>
+            // Region codes differ between countries
+            update({country, state: ''}),
+          ),
+        )}
+      </View>
+      {errors.country && <Text style={styles.error}>{errors.country}</Text>}
+
+      <View style={styles.row}>
+        <Input
+          label="First Name"
+          value={value.firstName}
+          onChangeText={firstName => update({firstName})}
+          error={errors.firstName}
+          containerStyle={styles.halfInput}
+        />
+        <Input
+          label="Last Name"
+          value={value.lastName}
+          onChangeText={lastName => update({lastName})}
+          error={errors.lastName}
+          containerStyle={styles.halfInput}
+        />
+      </View>
+      <Input
+        label="Street Address"
+        value={value.street}
+        onChangeText={street => update({street})}
+        error={errors.street}
+      />
+      <Input
+        label="Apartment, Suite, etc. (optional)"
+        value={value.street2 || ''}
+        onChangeText={street2 => update({street2})}
+      />
+      <View style={styles.row}>
+        <Input
+          label="City"
+          value={value.city}
+          onChangeText={city => update({city})}
+          error={errors.city}
+          containerStyle={styles.halfInput}
+        />
+        <Input
+          label={regionLabel}
+          value={value.state}
+          onChangeText={state => update({state})}
+          autoCapitalize={format.regionCodes ? 'characters' : 'words'}
+          error={errors.state}
+          containerStyle={styles.halfInput}
+        />
+      </View>
+      <Input
+        label={format.postalCodeLabel}
+        value={value.zipCode}
+        onChangeText={zipCode => update({zipCode})}
+        placeholder={format.postalCodeExample}
+        autoCapitalize="characters"
+        error={errors.zipCode}
+      />
+      <Input
+        label="Phone Number (optional)"
+        value={value.phoneNumber || ''}
+        onChangeText={phoneNumber => update({phoneNumber})}
+        keyboardType="phone-pad"
+        error={errors.phoneNumber}
+      />
+
+      {showAddressType && (
+        <>
+          <Text style={styles.label}>Use This Address For</Text>
+          <View style={styles.chips}>
+            {ADDRESS_TYPES.map(({type, label}) =>
+              renderChip(label, value.addressType === type, () =>
+                update({addressType: type}),
+              ),
+            )}
+          </View>
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#f5f5f5',
+    borderWidth: 1,
+    borderColor: '#eee',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#000',
+    borderColor: '#000',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  error: {
+    fontSize: 12,
+    color: '#e74c3c',
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    marginHorizontal: -8,
+  },
+  halfInput: {
+    flex: 1,
+    marginHorizontal: 8,
+  },
+});
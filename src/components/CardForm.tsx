@@ -0,0 +1,99 @@
+import React from 'react';
+import {View, StyleSheet} from 'react-native';
+import {
+  CardDetails,
+  CardField,
+  CardValidationErrors,
+  detectCardBrand,
+  formatCardNumber,
+  formatExpiry,
+  getCvcLength,
+  getMaxCardLength,
+  sanitizeCardNumber,
+} from '../services/cards';
+import {Input} from './Input';
+
+interface CardFormProps {
+  value: CardDetails;
+  errors: CardValidationErrors;
+  // Reports which field changed so its error can be cleared
+  onChange: (value: CardDetails, field: CardField) => void;
+}
+
+export const CardForm: React.FC<CardFormProps> = ({
+  value,
+  errors,
+  onChange,
+}) => {
+  const brand = detectCardBrand(value.number);
+  const cvcLength = getCvcLength(brand);
+
+  return (
+    <View>
+      <Input
+        label="Cardholder Name"
+        value={value.holderName}
+        onChangeText={holderName =>
+          onChange({...value, holderName}, 'holderName')
+        }
+        placeholder="John Doe"
+        autoCapitalize="words"
+        error={errors.holderName}
+      />
+      <Input
+        label={brand ? `Card Number (${brand.name})` : 'Card Number'}
+        value={formatCardNumber(value.number)}
+        onChangeText={text => {
+          const digits = sanitizeCardNumber(text);
+          const number = digits.slice(
+            0,
+            getMaxCardLength(detectCardBrand(digits)),
+          );
+          onChange({...value, number}, 'number');
+        }}
+        placeholder="4242 4242 4242 4242"
+        keyboardType="numeric"
+        error={errors.number}
+      />
+      <View style={styles.row}>
+        <Input
+          label="Expiry (MM/YY)"
+          value={value.expiry}
+          onChangeText={text =>
+            onChange({...value, expiry: formatExpiry(text)}, 'expiry')
+          }
+          placeholder="12/25"
+          keyboardType="numeric"
+          error={errors.expiry}
+          containerStyle={styles.halfInput}
+        />
+        <Input
+          label="CVC"
+          value={value.cvc}
+          onChangeText={text =>
+            onChange(
+              {...value, cvc: text.replace(/\D/g, '').slice(0, cvcLength)},
+              'cvc',
+            )
+          }
+          placeholder={cvcLength === 4 ? '1234' : '123'}
+          keyboardType="numeric"
+          secureTextEntry
+          error={errors.cvc}
+          containerStyle={styles.halfInput}
+        />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    marginHorizontal: -8,
+  },
+  halfInput: {
+    flex: 1,
+    marginHorizontal: 8,
+  },
+});
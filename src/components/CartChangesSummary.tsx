@@ -0,0 +1,82 @@
+import React from 'react';
+import {View, Text, StyleSheet} from 'react-native';
+import {CartChange} from '../models/Cart';
+import {Button} from './Button';
+import {usePreferredCurrency} from '../store/authStore';
+import {formatPrice} from '../services/currency';
+
+interface CartChangesSummaryProps {
+  changes: CartChange[];
+  onAcknowledge: () => void;
+}
+
+const describeChange = (change: CartChange, currency: string): string => {
+  switch (change.type) {
+    case 'price_changed':
+      return `${change.productName} is now ${formatPrice(
+        change.newPrice ?? 0,
+        currency,
+      )} (was ${formatPrice(change.previousPrice ?? 0, currency)})`;
+    case 'quantity_reduced':
+      return `Only ${change.newQuantity} of ${change.productName} left, so your quantity was reduced from ${change.previousQuantity}`;
+    case 'out_of_stock':
+      return `${change.productName} is out of stock and was removed`;
+    case 'discontinued':
+      return `${change.productName} is no longer available and was removed`;
+  }
+};
+
+export const CartChangesSummary: React.FC<CartChangesSummaryProps> = ({
+  changes,
+  onAcknowledge,
+}) => {
+  const currency = usePreferredCurrency();
+
+  if (changes.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Your cart changed</Text>
+      {changes.map(change => (
+        <Text key={`${change.itemId}-${change.type}`} style={styles.change}>
+          • {describeChange(change, currency)}
+        </Text>
+      ))}
+      <Button
+        title="Got It"
+        onPress={onAcknowledge}
+        variant="outline"
+        style={styles.button}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff8e1',
+    borderRadius: 12,
+    padding: 16,
+    margin: 16,
+    marginBottom: 0,
+    borderWidth: 1,
+    borderColor: '#ffe082',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#333',
+    marginBottom: 8,
+  },
+  change: {
+    fontSize: 14,
+    color: '#555',
+    lineHeight: 20,
+    marginBottom: 4,
+  },
+  button: {
+    marginTop: 8,
+  },
+});
@@ -7,6 +7,8 @@ import {
   TouchableOpacity,
 } from 'react-native';
 import {CartItem} from '../models/Cart';
+import {usePreferredCurrency} from '../store/authStore';
+import {formatPrice} from '../services/currency';
 
 interface CartItemCardProps {
   item: CartItem;
@@ -19,6 +21,7 @@ export const CartItemCard: React.FC<CartItemCardProps> = ({
   onUpdateQuantity,
   onRemove,
 }) => {
+  const currency = usePreferredCurrency();
   const variants = Object.entries(item.selectedVariants)
     .map(([key, value]) => `${key}: ${value}`)
     .join(', ');
@@ -38,9 +41,25 @@ export const CartItemCard: React.FC<CartItemCardProps> = ({
         {variants ? (
           <Text style={styles.variants}>{variants}</Text>
         ) : null}
+        {item.quantity > 1 && (
+          <Text style={styles.unitPrice}>
+            {formatPrice(item.unitPrice, currency, item.product.currency)} each
+          </Text>
+        )}
         <Text style={styles.price}>
-          ${(item.unitPrice * item.quantity).toFixed(2)}
+          {formatPrice(
+            item.unitPrice * item.quantity,
+            currency,
+            item.product.currency,
+          )}
         </Text>
+        {item.maxQuantity !== undefined && item.quantity > item.maxQuantity && (
+          <Text style={styles.stockWarning}>
+            {item.maxQuantity === 0
+              ? 'Sold out'
+              : `Only ${item.maxQuantity} available`}
+          </Text>
+        )}
       </View>
       <View style={styles.actions}>
         <View style={styles.quantityContainer}>
@@ -106,6 +125,17 @@ const styles = StyleSheet.create({
     color: '#666',
     marginBottom: 4,
   },
+  stockWarning: {
+    fontSize: 12,
+    color: '#e74c3c',
+    fontWeight: '500',
+    marginTop: 4,
+  },
+  unitPrice: {
+    fontSize: 12,
+    color: '#888',
+    marginBottom: 4,
+  },
   price: {
     fontSize: 16,
     fontWeight: '700',
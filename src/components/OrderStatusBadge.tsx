@@ -0,0 +1,47 @@
+import React from 'react';
+import {View, Text, StyleSheet} from 'react-native';
+import {OrderStatus} from '../models/Order';
+
+interface OrderStatusBadgeProps {
+  status: OrderStatus;
+}
+
+const STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  processing: 'Processing',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+};
+
+const STATUS_COLORS: Record<OrderStatus, string> = {
+  pending: '#FF9500',
+  processing: '#007AFF',
+  shipped: '#5856D6',
+  delivered: '#34C759',
+  cancelled: '#888',
+  refunded: '#FF3B30',
+};
+
+export const OrderStatusBadge: React.FC<OrderStatusBadgeProps> = ({status}) => {
+  return (
+    <View style={[styles.badge, {backgroundColor: STATUS_COLORS[status]}]}>
+      <Text style={styles.text}>{STATUS_LABELS[status]}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  badge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+  },
+  text: {
+    fontSize: 12,
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,146 @@
+import React from 'react';
+import {View, Text, StyleSheet, Modal, TouchableOpacity} from 'react-native';
+import {PaymentChallengeOutcome} from '../models/Payment';
+import {Button} from './Button';
+
+interface PaymentChallengeProps {
+  visible: boolean;
+  // Already formatted in the charge currency
+  amount: string;
+  paymentMethodLabel: string;
+  onComplete: (outcome: PaymentChallengeOutcome) => void;
+}
+
+/**
+ * Stand-in for the card issuer's 3-D Secure page. The shopper picks the
+ * outcome, the way payment providers' test pages work.
+ */
+export const PaymentChallenge: React.FC<PaymentChallengeProps> = ({
+  visible,
+  amount,
+  paymentMethodLabel,
+  onComplete,
+}) => (
+  <Modal
+    visible={visible}
+    animationType="slide"
+    presentationStyle="pageSheet"
+    onRequestClose={() => onComplete('cancelled')}>
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Secure Checkout</Text>
+        <TouchableOpacity onPress={() => onComplete('cancelled')}>
+          <Text style={styles.cancelText}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.content}>
+        <Text style={styles.icon}>🔒</Text>
+        <Text style={styles.title}>Confirm it's you</Text>
+        <Text style={styles.message}>
+          Your bank needs to verify this payment before it can go through.
+        </Text>
+
+        <View style={styles.details}>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Amount</Text>
+            <Text style={styles.detailValue}>{amount}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Card</Text>
+            <Text style={styles.detailValue}>{paymentMethodLabel}</Text>
+          </View>
+        </View>
+
+        <Text style={styles.testNotice}>
+          Test mode: choose how the bank's check turns out.
+        </Text>
+        <Button
+          title="Complete Authentication"
+          onPress={() => onComplete('authenticated')}
+          style={styles.button}
+        />
+        <Button
+          title="Fail Authentication"
+          variant="outline"
+          onPress={() => onComplete('failed')}
+        />
+      </View>
+    </View>
+  </Modal>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#333',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  content: {
+    padding: 24,
+  },
+  icon: {
+    fontSize: 48,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#000',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 24,
+  },
+  details: {
+    backgroundColor: '#f8f8f8',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  detailValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  testNotice: {
+    fontSize: 13,
+    color: '#888',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  button: {
+    marginBottom: 12,
+  },
+});
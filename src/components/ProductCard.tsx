@@ -8,6 +8,8 @@ import {
   Dimensions,
 } from 'react-native';
 import {Product} from '../models/Product';
+import {usePreferredCurrency} from '../store/authStore';
+import {formatPrice} from '../services/currency';
 
 interface ProductCardProps {
   product: Product;
@@ -23,6 +25,8 @@ export const ProductCard: React.FC<ProductCardProps> = ({
   onPress,
   compact = false,
 }) => {
+  const currency = usePreferredCurrency();
+
   return (
     <TouchableOpacity
       style={[styles.container, compact && styles.compactContainer]}
@@ -40,7 +44,7 @@ export const ProductCard: React.FC<ProductCardProps> = ({
         </Text>
         <View style={styles.priceRow}>
           <Text style={styles.price}>
-            ${product.price.toFixed(2)}
+            {formatPrice(product.price, currency, product.currency)}
           </Text>
       {!product.inStock && (
         <View style={styles.outOfStockOverlay}>
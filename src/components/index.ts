@@ -5,3 +5,8 @@ export {Button} from './Button';
 export {Input} from './Input';
 export {LoadingSpinner} from './LoadingSpinner';
 export {EmptyState} from './EmptyState';
+export {OrderStatusBadge} from './OrderStatusBadge';
+export {CartChangesSummary} from './CartChangesSummary';
+export {AddressForm} from './AddressForm';
+export {CardForm} from './CardForm';
+export {PaymentChallenge} from './PaymentChallenge';
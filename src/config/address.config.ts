@@ -0,0 +1,84 @@
+// Address formats for the countries shoppers can save addresses in, keyed by
+// country name as stored on Address.country. Postal codes are checked
+// against `postalCodePattern` after trimming and upper-casing; where
+// `regionCodes` is set the state field must be one of them.
+
+export interface AddressFormat {
+  postalCodePattern: RegExp;
+  postalCodeLabel: string;
+  postalCodeExample: string;
+  regionLabel: string;
+  regionCodes?: string[];
+  requiresRegion: boolean;
+}
+
+// States, DC and the inhabited territories
+const US_STATES = [
+  'AL AK AZ AR CA CO CT DE DC FL GA HI ID IL IN IA KS KY LA ME',
+  'MD MA MI MN MS MO MT NE NV NH NJ NM NY NC ND OH OK OR PA RI',
+  'SC SD TN TX UT VT VA WA WV WI WY PR GU VI AS MP',
+]
+  .join(' ')
+  .split(' ');
+
+const CA_PROVINCES = 'AB BC MB NB NL NS NT NU ON PE QC SK YT'.split(' ');
+
+const AU_STATES = 'ACT NSW NT QLD SA TAS VIC WA'.split(' ');
+
+export const DEFAULT_COUNTRY = 'United States';
+
+export const ADDRESS_FORMATS: Record<string, AddressFormat> = {
+  'United States': {
+    postalCodePattern: /^\d{5}(-\d{4})?$/,
+    postalCodeLabel: 'ZIP Code',
+    postalCodeExample: '10001',
+    regionLabel: 'State',
+    regionCodes: US_STATES,
+    requiresRegion: true,
+  },
+  Canada: {
+    postalCodePattern:
+      /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d$/,
+    postalCodeLabel: 'Postal Code',
+    postalCodeExample: 'K1A 0B1',
+    regionLabel: 'Province',
+    regionCodes: CA_PROVINCES,
+    requiresRegion: true,
+  },
+  'United Kingdom': {
+    postalCodePattern: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/,
+    postalCodeLabel: 'Postcode',
+    postalCodeExample: 'SW1A 1AA',
+    regionLabel: 'County',
+    requiresRegion: false,
+  },
+  Germany: {
+    postalCodePattern: /^\d{5}$/,
+    postalCodeLabel: 'Postleitzahl',
+    postalCodeExample: '10115',
+    regionLabel: 'State',
+    requiresRegion: false,
+  },
+  France: {
+    postalCodePattern: /^\d{5}$/,
+    postalCodeLabel: 'Code Postal',
+    postalCodeExample: '75001',
+    regionLabel: 'Region',
+    requiresRegion: false,
+  },
+  Australia: {
+    postalCodePattern: /^\d{4}$/,
+    postalCodeLabel: 'Postcode',
+    postalCodeExample: '2000',
+    regionLabel: 'State',
+    regionCodes: AU_STATES,
+    requiresRegion: true,
+  },
+  Japan: {
+    postalCodePattern: /^\d{3}-?\d{4}$/,
+    postalCodeLabel: 'Postal Code',
+    postalCodeExample: '100-0001',
+    regionLabel: 'Prefecture',
+    requiresRegion: true,
+  },
+};
@@ -0,0 +1,26 @@
+import {TransportMode} from '../services/transport';
+import {FaultProfileName, FaultRule} from '../services/faultInjection';
+
+// API transport configuration
+// transport: 'mock' resolves every request in-process from mockData.ts
+// transport: 'http' sends real requests to baseUrl, e.g. a staging API or the
+// local mock server (`npm run mock-server`, then http://localhost:3000/v1, or
+// http://10.0.2.2:3000/v1 from the Android emulator)
+//
+// faultProfile: named set of injected faults (see FAULT_PROFILES); 'default'
+// keeps the login and payment failure rates, 'none' disables injection
+// faultOverrides: extra per-endpoint rules evaluated before the profile's
+
+export const API_CONFIG: {
+  transport: TransportMode;
+  baseUrl: string;
+  timeoutMs: number;
+  faultProfile: FaultProfileName;
+  faultOverrides: FaultRule[];
+} = {
+  transport: 'mock',
+  baseUrl: 'https://api.embrace-ecommerce.com/v1',
+  timeoutMs: 15000,
+  faultProfile: 'default',
+  faultOverrides: [],
+};
@@ -0,0 +1,67 @@
+// Currencies shoppers can browse and pay in. Catalog prices, discounts and
+// tax tables are all in BASE_CURRENCY; `rate` is how many units of the
+// currency one unit of BASE_CURRENCY buys. Orders lock in the rate that was
+// current when they were placed.
+
+export const BASE_CURRENCY = 'USD';
+
+export interface CurrencyInfo {
+  code: string;
+  name: string;
+  // Locale whose conventions are used to format amounts in this currency
+  locale: string;
+  symbol: string;
+  decimals: number;
+  rate: number;
+}
+
+export const CURRENCIES: Record<string, CurrencyInfo> = {
+  USD: {
+    code: 'USD',
+    name: 'US Dollar',
+    locale: 'en-US',
+    symbol: '$',
+    decimals: 2,
+    rate: 1,
+  },
+  EUR: {
+    code: 'EUR',
+    name: 'Euro',
+    locale: 'de-DE',
+    symbol: '€',
+    decimals: 2,
+    rate: 0.92,
+  },
+  GBP: {
+    code: 'GBP',
+    name: 'British Pound',
+    locale: 'en-GB',
+    symbol: '£',
+    decimals: 2,
+    rate: 0.79,
+  },
+  CAD: {
+    code: 'CAD',
+    name: 'Canadian Dollar',
+    locale: 'en-CA',
+    symbol: 'CA$',
+    decimals: 2,
+    rate: 1.36,
+  },
+  AUD: {
+    code: 'AUD',
+    name: 'Australian Dollar',
+    locale: 'en-AU',
+    symbol: 'A$',
+    decimals: 2,
+    rate: 1.52,
+  },
+  JPY: {
+    code: 'JPY',
+    name: 'Japanese Yen',
+    locale: 'ja-JP',
+    symbol: '¥',
+    decimals: 0,
+    rate: 149.5,
+  },
+};
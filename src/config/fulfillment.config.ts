@@ -0,0 +1,9 @@
+// Simulated fulfillment clock used by the mock backend. A paid order ships
+// once `processingMs` has passed since it entered processing, and is
+// delivered `inTransitMs` after shipping. Shorten these to watch orders move
+// through their lifecycle during a single session.
+
+export const FULFILLMENT_CONFIG = {
+  processingMs: 2 * 60 * 1000,
+  inTransitMs: 5 * 60 * 1000,
+};
@@ -0,0 +1,96 @@
+import {
+  PaymentDeclineCode,
+  PaymentRecoveryAction,
+  WalletType,
+} from '../models/Payment';
+
+export interface WalletConfig {
+  // Platform.OS values the wallet is offered on
+  platforms: string[];
+  // How long the mock payment sheet stays open before it resolves
+  latencyMs: number;
+  // Share of mock authorizations the shopper dismisses
+  cancelRate: number;
+  // Share of mock authorizations the wallet declines
+  failureRate: number;
+}
+
+export const WALLET_CONFIG: Record<WalletType, WalletConfig> = {
+  applePay: {
+    platforms: ['ios'],
+    latencyMs: 1200,
+    cancelRate: 0.1,
+    failureRate: 0.05,
+  },
+  googlePay: {
+    platforms: ['android'],
+    latencyMs: 1200,
+    cancelRate: 0.1,
+    failureRate: 0.05,
+  },
+  paypal: {
+    platforms: ['ios', 'android'],
+    latencyMs: 2500,
+    cancelRate: 0.15,
+    failureRate: 0.05,
+  },
+};
+
+// Test card numbers the mock provider reports as debit-funded; every other
+// accepted card is treated as a credit card
+export const DEBIT_TEST_CARDS = ['4000056655665556', '5200828282828210'];
+
+export type TestCardBehavior = 'three_d_secure' | PaymentDeclineCode;
+
+// Test cards with a scripted outcome: the issuer asks for 3-D Secure on
+// every payment, or declines it. The mock provider puts the behavior in the
+// card's token so the mock backend can act on it.
+export const TEST_CARD_BEHAVIORS: Record<string, TestCardBehavior> = {
+  '4000002760003184': 'three_d_secure',
+  '4000000000009995': 'insufficient_funds',
+  '4000000000000069': 'expired_card',
+  '4000000000000127': 'incorrect_cvc',
+  '4100000000000019': 'fraud_suspected',
+  '4000000000000119': 'processor_unavailable',
+};
+
+export interface PaymentDeclineInfo {
+  // Shown to the shopper; fraud declines deliberately give nothing away
+  message: string;
+  recovery: PaymentRecoveryAction;
+  // The card field to re-enter when the recovery is edit_card
+  cardField?: 'expiry' | 'cvc';
+}
+
+export const PAYMENT_DECLINES: Record<PaymentDeclineCode, PaymentDeclineInfo> =
+  {
+    insufficient_funds: {
+      message: 'Your card has insufficient funds for this order.',
+      recovery: 'choose_another_method',
+    },
+    expired_card: {
+      message: 'Your bank reports that this card has expired.',
+      recovery: 'edit_card',
+      cardField: 'expiry',
+    },
+    incorrect_cvc: {
+      message: "The card's security code (CVC) is incorrect.",
+      recovery: 'edit_card',
+      cardField: 'cvc',
+    },
+    fraud_suspected: {
+      message: 'Your bank declined this payment.',
+      recovery: 'choose_another_method',
+    },
+    processor_unavailable: {
+      message: "We couldn't reach the payment processor.",
+      recovery: 'retry_later',
+    },
+  };
+
+// How long the mock backend takes to settle a payment once it is processing
+export const PAYMENT_PROCESSING_MS = 1500;
+
+// How often, and for how long, the app checks on a processing payment
+export const PAYMENT_POLL_INTERVAL_MS = 500;
+export const PAYMENT_POLL_TIMEOUT_MS = 30000;
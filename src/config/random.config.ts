@@ -0,0 +1,6 @@
+// Seed for every simulated random behavior (CI crash rolls, injected API
+// faults, generated order and tracking numbers, cart item ids). Set it to
+// the `random_seed` session property of a previous run to replay that run
+// exactly; null picks a fresh seed at startup.
+
+export const RANDOM_SEED: number | null = null;
@@ -0,0 +1,75 @@
+// Carrier rate cards for the shipping methods offered at checkout, keyed by
+// shipping method id. A method costs `base` plus `perKg` for every billable
+// kilogram, where billable weight is the greater of the parcel's actual
+// weight and its dimensional weight. A method without a rate for a zone is
+// not offered there, and countries that are not listed are not served.
+
+export type ShippingZone = 'domestic' | 'remote' | 'international';
+
+export interface ZoneRate {
+  base: number;
+  perKg: number;
+  // Business days from order to delivery
+  transitDays: number;
+}
+
+export interface ShippingRateCard {
+  rates: Partial<Record<ShippingZone, ZoneRate>>;
+  maxWeightKg: number;
+  // Longest side of any single item the service accepts, in inches
+  maxLengthIn: number;
+}
+
+export const SHIPPING_CONFIG = {
+  originCountry: 'United States',
+  // States the domestic network reaches only by air or sea
+  remoteStates: ['AK', 'HI', 'PR', 'GU', 'VI'],
+  internationalCountries: [
+    'Canada',
+    'United Kingdom',
+    'Germany',
+    'France',
+    'Australia',
+    'Japan',
+  ],
+  // Cubic inches per billable kilogram
+  dimensionalDivisor: 305,
+  // Used for products without a listed weight or size
+  defaultItemWeightKg: 0.5,
+  defaultItemDimensions: {width: 10, height: 8, depth: 4},
+};
+
+export const SHIPPING_RATE_CARDS: Record<string, ShippingRateCard> = {
+  ship1: {
+    rates: {
+      domestic: {base: 4.99, perKg: 1, transitDays: 7},
+      remote: {base: 9.99, perKg: 2.5, transitDays: 10},
+      international: {base: 14.99, perKg: 6, transitDays: 14},
+    },
+    maxWeightKg: 30,
+    maxLengthIn: 96,
+  },
+  ship2: {
+    rates: {
+      domestic: {base: 9.99, perKg: 2, transitDays: 3},
+      remote: {base: 19.99, perKg: 4, transitDays: 5},
+      international: {base: 34.99, perKg: 10, transitDays: 6},
+    },
+    maxWeightKg: 30,
+    maxLengthIn: 96,
+  },
+  ship3: {
+    rates: {
+      domestic: {base: 19.99, perKg: 4, transitDays: 1},
+    },
+    maxWeightKg: 10,
+    maxLengthIn: 48,
+  },
+  ship4: {
+    rates: {
+      domestic: {base: 0, perKg: 0, transitDays: 10},
+    },
+    maxWeightKg: 5,
+    maxLengthIn: 48,
+  },
+};
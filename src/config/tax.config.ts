@@ -0,0 +1,104 @@
+// Sales tax rate tables. A shipping address matches its country, then its
+// state, then any local jurisdiction whose zip prefix it starts with; the
+// rates of every matching level add up. Shipping taxability comes from the
+// most specific level that sets it, and a category exempt at any matching
+// level is exempt from all of them. Addresses in a country without an entry
+// are not taxed.
+
+export interface TaxJurisdiction {
+  name: string;
+  country: string;
+  state?: string;
+  zipPrefixes?: string[];
+  rate: number;
+  taxesShipping?: boolean;
+  exemptCategories?: string[];
+}
+
+export const TAX_JURISDICTIONS: TaxJurisdiction[] = [
+  // United States: no federal sales tax, states without an entry have none
+  {
+    name: 'United States',
+    country: 'United States',
+    rate: 0,
+    taxesShipping: false,
+  },
+  {
+    name: 'New York',
+    country: 'United States',
+    state: 'NY',
+    rate: 0.04,
+    taxesShipping: true,
+    exemptCategories: ['Clothing', 'Footwear'],
+  },
+  {
+    name: 'New York City',
+    country: 'United States',
+    state: 'NY',
+    zipPrefixes: ['100', '101', '102', '103', '104', '112', '113', '114'],
+    rate: 0.04875,
+  },
+  {
+    name: 'California',
+    country: 'United States',
+    state: 'CA',
+    rate: 0.0725,
+    taxesShipping: false,
+  },
+  {
+    name: 'Los Angeles County',
+    country: 'United States',
+    state: 'CA',
+    zipPrefixes: ['900', '901', '902', '903', '904', '905', '906', '907'],
+    rate: 0.0225,
+  },
+  {
+    name: 'Texas',
+    country: 'United States',
+    state: 'TX',
+    rate: 0.0625,
+    taxesShipping: true,
+  },
+  {
+    name: 'Washington',
+    country: 'United States',
+    state: 'WA',
+    rate: 0.065,
+    taxesShipping: true,
+  },
+  {
+    name: 'Seattle',
+    country: 'United States',
+    state: 'WA',
+    zipPrefixes: ['981'],
+    rate: 0.0385,
+  },
+  {
+    name: 'Pennsylvania',
+    country: 'United States',
+    state: 'PA',
+    rate: 0.06,
+    taxesShipping: true,
+    exemptCategories: ['Clothing', 'Footwear'],
+  },
+  {
+    name: 'New Jersey',
+    country: 'United States',
+    state: 'NJ',
+    rate: 0.06625,
+    taxesShipping: true,
+    exemptCategories: ['Clothing', 'Footwear'],
+  },
+  // Canada: federal GST plus the provincial part of HST where it applies
+  {name: 'Canada', country: 'Canada', rate: 0.05, taxesShipping: true},
+  {name: 'Ontario', country: 'Canada', state: 'ON', rate: 0.08},
+  {name: 'Nova Scotia', country: 'Canada', state: 'NS', rate: 0.1},
+  // VAT
+  {
+    name: 'United Kingdom',
+    country: 'United Kingdom',
+    rate: 0.2,
+    taxesShipping: true,
+  },
+  {name: 'Germany', country: 'Germany', rate: 0.19, taxesShipping: true},
+];
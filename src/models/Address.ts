@@ -15,6 +15,30 @@ export interface Address {
   phoneNumber?: string;
 }
 
+// Fields a shopper fills in; the backend assigns the id
+export type AddressInput = Omit<Address, 'id'>;
+
+export const createEmptyAddress = (
+  firstName = '',
+  lastName = '',
+  addressType: AddressType = 'both',
+): AddressInput => ({
+  firstName,
+  lastName,
+  street: '',
+  city: '',
+  state: '',
+  zipCode: '',
+  country: 'United States',
+  addressType,
+  isDefault: false,
+});
+
+export const servesAddressType = (
+  address: Address,
+  type: Exclude<AddressType, 'both'>,
+): boolean => address.addressType === type || address.addressType === 'both';
+
 export const formatAddress = (address: Address): string => {
   const lines = [
     `${address.firstName} ${address.lastName}`,
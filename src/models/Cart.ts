@@ -1,4 +1,5 @@
 import {Product} from './Product';
+import {skuKey} from './Inventory';
 
 export interface CartItem {
   id: string;
@@ -8,6 +9,8 @@ export interface CartItem {
   selectedVariants: Record<string, string>;
   unitPrice: number;
   addedAt: string;
+  // Units last reported in stock for this product and variant selection
+  maxQuantity?: number;
 }
 
 export interface Cart {
@@ -17,6 +20,65 @@ export interface Cart {
   updatedAt: string;
 }
 
+export type CartChangeType =
+  | 'price_changed'
+  | 'discontinued'
+  | 'out_of_stock'
+  | 'quantity_reduced';
+
+// Something about a cart line that changed since it was added
+export interface CartChange {
+  itemId: string;
+  productId: string;
+  productName: string;
+  type: CartChangeType;
+  previousPrice?: number;
+  newPrice?: number;
+  previousQuantity?: number;
+  newQuantity?: number;
+}
+
+export type CartMergeStrategy = 'adopt_remote' | 'keep_local' | 'merge';
+
+export interface CartMergeResult {
+  items: CartItem[];
+  strategy: CartMergeStrategy;
+  // Lines present in both carts, resolved in favour of the newer cart
+  conflicts: number;
+}
+
+/**
+ * Combines a device cart with the account's server cart. Lines in only one
+ * cart are kept; a line in both takes the quantity and price from whichever
+ * cart was updated more recently.
+ */
+export const mergeCarts = (local: Cart, remote: Cart): CartMergeResult => {
+  if (local.items.length === 0) {
+    return {items: remote.items, strategy: 'adopt_remote', conflicts: 0};
+  }
+  if (remote.items.length === 0) {
+    return {items: local.items, strategy: 'keep_local', conflicts: 0};
+  }
+
+  const localIsNewer =
+    new Date(local.updatedAt).getTime() >= new Date(remote.updatedAt).getTime();
+  const [newer, older] = localIsNewer ? [local, remote] : [remote, local];
+
+  const merged = new Map(
+    older.items.map(item => [skuKey(item.productId, item.selectedVariants), item]),
+  );
+  let conflicts = 0;
+  newer.items.forEach(item => {
+    const key = skuKey(item.productId, item.selectedVariants);
+    if (merged.has(key)) {
+      conflicts++;
+    }
+    merged.set(key, item);
+  });
+
+  return {items: [...merged.values()], strategy: 'merge', conflicts};
+};
+
 export const calculateCartTotals = (items: CartItem[]) => {
   const totalItems = items.reduce((sum, item) => sum + item.quantity, 0);
   const subtotal = items.reduce(
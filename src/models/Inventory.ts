@@ -0,0 +1,29 @@
+export interface StockRequest {
+  productId: string;
+  selectedVariants: Record<string, string>;
+}
+
+export interface StockLevel extends StockRequest {
+  available: number;
+}
+
+export interface ReservationLine extends StockRequest {
+  quantity: number;
+}
+
+export interface InventoryReservation {
+  id: string;
+  expiresAt: string;
+}
+
+// Identifies a SKU: a product plus one value per variant type, in a stable order
+export const skuKey = (
+  productId: string,
+  selectedVariants: Record<string, string>,
+): string =>
+  [
+    productId,
+    ...Object.keys(selectedVariants)
+      .sort()
+      .map(type => `${type}=${selectedVariants[type]}`),
+  ].join('|');
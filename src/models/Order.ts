@@ -1,5 +1,6 @@
 import {Address} from './Address';
 import {PaymentMethod} from './Payment';
+import {DiscountLine} from './Promotion';
 
 export type OrderStatus =
   | 'pending'
@@ -9,6 +10,27 @@ export type OrderStatus =
   | 'cancelled'
   | 'refunded';
 
+// Statuses each status may move to. Cancelled and refunded are final.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: ['refunded'],
+  cancelled: [],
+  refunded: [],
+};
+
+export const canTransitionOrder = (
+  from: OrderStatus,
+  to: OrderStatus,
+): boolean => ORDER_STATUS_TRANSITIONS[from].includes(to);
+
+export const canCancelOrder = (order: Order): boolean =>
+  order.status === 'pending' || order.status === 'processing';
+
+export const canRefundOrder = (order: Order): boolean =>
+  order.status === 'delivered';
+
 export interface OrderItem {
   id: string;
   productId: string;
@@ -17,6 +39,15 @@ export interface OrderItem {
   unitPrice: number;
   selectedVariants: Record<string, string>;
   imageUrl?: string;
+  // Tax charged on this line after its share of the discounts
+  taxRate?: number;
+  tax?: number;
+}
+
+export interface OrderStatusChange {
+  from: OrderStatus;
+  to: OrderStatus;
+  changedAt: string;
 }
 
 export interface Order {
@@ -28,16 +59,34 @@ export interface Order {
   billingAddress: Address;
   paymentMethod: PaymentMethod;
   status: OrderStatus;
+  // Every status change, oldest first; older orders have none
+  statusHistory?: OrderStatusChange[];
   subtotal: number;
   tax: number;
+  // Part of `tax` charged on shipping
+  shippingTax?: number;
   shipping: number;
+  // Total of the discount lines; older orders have neither field
+  discount?: number;
+  discounts?: DiscountLine[];
   total: number;
+  // Currency the order is charged in and its rate against the catalog
+  // currency when the order was placed; amounts above are catalog amounts
+  currency?: string;
+  exchangeRate?: number;
   createdAt: string;
   updatedAt: string;
+  shippingMethodId?: string;
   estimatedDelivery?: string;
   trackingNumber?: string;
+  cancellationReason?: string;
+  refundReason?: string;
 }
 
+// Order as submitted by the client. The reservation holds its stock from the
+// start of checkout until the order is created.
+export type OrderRequest = Partial<Order> & {reservationId?: string};
+
 export interface ShippingMethod {
   id: string;
   name: string;
@@ -46,4 +95,7 @@ export interface ShippingMethod {
   estimatedDays: number;
   isAvailable: boolean;
   trackingIncluded: boolean;
+  // Set on quotes for a destination
+  estimatedDelivery?: string;
+  unavailableReason?: string;
 }
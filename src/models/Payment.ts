@@ -1,3 +1,5 @@
+import {Address} from './Address';
+
 export type PaymentType =
   | 'creditCard'
   | 'debitCard'
@@ -5,6 +7,18 @@ export type PaymentType =
   | 'googlePay'
   | 'paypal';
 
+export type CardPaymentType = Extract<PaymentType, 'creditCard' | 'debitCard'>;
+
+export type WalletType = Exclude<PaymentType, CardPaymentType>;
+
+export const PAYMENT_TYPE_LABELS: Record<PaymentType, string> = {
+  creditCard: 'Credit Card',
+  debitCard: 'Debit Card',
+  applePay: 'Apple Pay',
+  googlePay: 'Google Pay',
+  paypal: 'PayPal',
+};
+
 export interface CardInfo {
   last4: string;
   brand: string;
@@ -24,12 +38,65 @@ export interface PaymentMethod {
   cardInfo?: CardInfo;
   digitalWalletInfo?: DigitalWalletInfo;
   isDefault: boolean;
+  // Issued by the payment provider in exchange for the card details; the
+  // method is charged through it, so card numbers and CVCs are never stored
+  token?: string;
 }
 
+// What the provider hands back for a tokenized card or wallet
+export type PaymentMethodInput = Omit<PaymentMethod, 'id' | 'isDefault'> & {
+  token: string;
+};
+
+export const formatPaymentMethod = (method: PaymentMethod): string => {
+  if (method.cardInfo) {
+    return `${method.cardInfo.brand} ending in ${method.cardInfo.last4}`;
+  }
+  if (method.digitalWalletInfo) {
+    const account =
+      method.digitalWalletInfo.email || method.digitalWalletInfo.displayName;
+    return `${PAYMENT_TYPE_LABELS[method.type]} (${account})`;
+  }
+  return PAYMENT_TYPE_LABELS[method.type];
+};
+
 export type PaymentStatus = 'pending' | 'processing' | 'succeeded' | 'failed';
 
+// An extra step the card issuer asks for before a payment can go ahead
+export interface PaymentChallenge {
+  type: 'three_d_secure';
+}
+
+export type PaymentChallengeOutcome = 'authenticated' | 'failed' | 'cancelled';
+
+export type PaymentDeclineCode =
+  | 'insufficient_funds'
+  | 'expired_card'
+  | 'incorrect_cvc'
+  | 'fraud_suspected'
+  | 'processor_unavailable';
+
+// What the shopper can do about a declined payment
+export type PaymentRecoveryAction =
+  | 'edit_card'
+  | 'choose_another_method'
+  | 'retry_later';
+
+export interface PaymentRequest {
+  orderId: string;
+  amount: number;
+  currency: string;
+  paymentType?: PaymentType;
+  paymentToken?: string;
+  billingAddress?: Address;
+}
+
 export interface PaymentResult {
   status: PaymentStatus;
   paymentIntentId?: string;
   errorMessage?: string;
+  // Why a failed payment was declined, when the issuer or processor said
+  declineCode?: PaymentDeclineCode;
+  // Set while a pending intent waits for the shopper to pass the challenge
+  challenge?: PaymentChallenge;
 }
@@ -0,0 +1,50 @@
+export type PromotionType =
+  | 'percentage'
+  | 'fixed_amount'
+  | 'free_shipping'
+  | 'buy_x_get_y';
+
+export interface Promotion {
+  code: string;
+  description: string;
+  type: PromotionType;
+  // Percent off for 'percentage', currency amount off for 'fixed_amount'
+  value: number;
+  // Limits the promotion to items in this category
+  category?: string;
+  // For 'buy_x_get_y': every buyQuantity + getQuantity units, getQuantity are free
+  buyQuantity?: number;
+  getQuantity?: number;
+  minSubtotal?: number;
+  // Whether the promotion can be combined with other promotions
+  stackable: boolean;
+  expiresAt?: string;
+}
+
+// A cart or order line as seen by the discount engine
+export interface DiscountableLine {
+  id: string;
+  category: string;
+  unitPrice: number;
+  quantity: number;
+}
+
+// Part of an item discount taken off one order line
+export interface DiscountAllocation {
+  lineId: string;
+  amount: number;
+}
+
+export interface DiscountLine {
+  code: string;
+  description: string;
+  type: PromotionType;
+  amount: number;
+  // Item discounts only: how the amount splits over the lines it applied to
+  allocations?: DiscountAllocation[];
+}
+
+export interface PromoCodeValidation {
+  promotion: Promotion;
+  discount: DiscountLine;
+}
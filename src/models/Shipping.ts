@@ -0,0 +1,20 @@
+import {Address} from './Address';
+
+export type ShippingDestination = Pick<
+  Address,
+  'country' | 'state' | 'zipCode'
+>;
+
+export interface ShippingLine {
+  productId: string;
+  quantity: number;
+}
+
+export interface Parcel {
+  weightKg: number;
+  volumeIn3: number;
+  // Longest side of the largest item, in inches
+  longestSideIn: number;
+  // Greater of the actual and the dimensional weight
+  billableWeightKg: number;
+}
@@ -0,0 +1,19 @@
+import {Address} from './Address';
+
+export type TaxAddress = Pick<Address, 'country' | 'state' | 'zipCode'>;
+
+export interface LineTax {
+  itemId: string;
+  // Line subtotal less the item discounts that applied to it
+  taxableAmount: number;
+  taxRate: number;
+  tax: number;
+}
+
+export interface TaxBreakdown {
+  // Matching jurisdictions from broadest to most specific
+  jurisdictions: string[];
+  lines: LineTax[];
+  shippingTax: number;
+  total: number;
+}
@@ -4,3 +4,4 @@ export * from './Cart';
 export * from './Order';
 export * from './Address';
 export * from './Payment';
+export * from './Promotion';
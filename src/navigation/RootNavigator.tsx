@@ -6,7 +6,13 @@ import {
   ProductListScreen,
   ProductDetailScreen,
   CheckoutScreen,
+  OrderHistoryScreen,
+  OrderDetailScreen,
   AuthScreen,
+  AddressBookScreen,
+  AddressEditScreen,
+  PaymentMethodsScreen,
+  AddCardScreen,
 } from '../screens';
 import {RootStackParamList} from './types';
 
@@ -48,6 +54,48 @@ export const RootNavigator: React.FC = () => {
           gestureEnabled: false,
         }}
       />
+      <Stack.Screen
+        name="OrderHistory"
+        component={OrderHistoryScreen}
+        options={{
+          headerTitle: 'Order History',
+        }}
+      />
+      <Stack.Screen
+        name="OrderDetail"
+        component={OrderDetailScreen}
+        options={{
+          headerTitle: 'Order',
+        }}
+      />
+      <Stack.Screen
+        name="AddressBook"
+        component={AddressBookScreen}
+        options={{
+          headerTitle: 'Saved Addresses',
+        }}
+      />
+      <Stack.Screen
+        name="AddressEdit"
+        component={AddressEditScreen}
+        options={({route}) => ({
+          headerTitle: route.params.addressId ? 'Edit Address' : 'New Address',
+        })}
+      />
+      <Stack.Screen
+        name="PaymentMethods"
+        component={PaymentMethodsScreen}
+        options={{
+          headerTitle: 'Payment Methods',
+        }}
+      />
+      <Stack.Screen
+        name="AddCard"
+        component={AddCardScreen}
+        options={{
+          headerTitle: 'Add Card',
+        }}
+      />
       <Stack.Screen
         name="Auth"
         component={AuthScreen}
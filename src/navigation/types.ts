@@ -17,6 +17,16 @@ export type RootStackParamList = {
     productId: string;
   };
   Checkout: undefined;
+  OrderHistory: undefined;
+  OrderDetail: {
+    orderId: string;
+  };
+  AddressBook: undefined;
+  AddressEdit: {
+    addressId?: string;
+  };
+  PaymentMethods: undefined;
+  AddCard: undefined;
   Auth: {
     returnTo?: 'Checkout' | 'Profile';
   };
@@ -0,0 +1,162 @@
+import React, {useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import {useNavigation} from '@react-navigation/native';
+import {NativeStackNavigationProp} from '@react-navigation/native-stack';
+import {useAuthStore} from '../store/authStore';
+import {usePaymentMethodStore} from '../store/paymentMethodStore';
+import {embraceService} from '../services/embrace';
+import {paymentProvider} from '../services/paymentProvider';
+import {
+  CardDetails,
+  CardValidationErrors,
+  detectCardBrand,
+  validateCard,
+} from '../services/cards';
+import {Button, CardForm} from '../components';
+import {RootStackParamList} from '../navigation/types';
+
+type AddCardNavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+export const AddCardScreen: React.FC = () => {
+  const navigation = useNavigation<AddCardNavigationProp>();
+  const {user} = useAuthStore();
+  const {methodsByUser, savePaymentMethod} = usePaymentMethodStore();
+  const hasSavedMethods = !!user && (methodsByUser[user.id] || []).length > 0;
+
+  const [card, setCard] = useState<CardDetails>({
+    number: '',
+    expiry: '',
+    cvc: '',
+    holderName: user ? `${user.firstName} ${user.lastName}`.trim() : '',
+  });
+  const [errors, setErrors] = useState<CardValidationErrors>({});
+  // The first saved card always becomes the default
+  const [makeDefault, setMakeDefault] = useState(!hasSavedMethods);
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!user) {
+      return;
+    }
+
+    const validationErrors = validateCard(card);
+    if (Object.keys(validationErrors).length > 0) {
+      setErrors(validationErrors);
+      embraceService.trackCardValidationFailed(
+        detectCardBrand(card.number)?.brand ?? 'unknown',
+        Object.keys(validationErrors),
+      );
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const tokenized = await paymentProvider.tokenizeCard(card);
+      await savePaymentMethod(user.id, tokenized, makeDefault);
+      embraceService.addBreadcrumb('PAYMENT_METHOD_SAVED');
+      navigation.goBack();
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Card Not Saved', errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled">
+        <CardForm
+          value={card}
+          errors={errors}
+          onChange={(value, field) => {
+            setCard(value);
+            setErrors({...errors, [field]: undefined});
+          }}
+        />
+
+        {hasSavedMethods && (
+          <TouchableOpacity
+            style={styles.defaultRow}
+            onPress={() => setMakeDefault(!makeDefault)}>
+            <View
+              style={[styles.checkbox, makeDefault && styles.checkboxChecked]}>
+              {makeDefault && <Text style={styles.checkmark}>✓</Text>}
+            </View>
+            <Text style={styles.defaultText}>Make this my default card</Text>
+          </TouchableOpacity>
+        )}
+
+        <Text style={styles.notice}>
+          Your card number and CVC are sent to our payment provider and are
+          never stored on this device.
+        </Text>
+
+        <Button
+          title="Save Card"
+          onPress={handleSave}
+          loading={saving}
+          disabled={saving}
+        />
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  scrollContent: {
+    padding: 24,
+  },
+  defaultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: '#ccc',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  checkboxChecked: {
+    backgroundColor: '#000',
+    borderColor: '#000',
+  },
+  checkmark: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  defaultText: {
+    fontSize: 15,
+    color: '#333',
+  },
+  notice: {
+    fontSize: 13,
+    color: '#888',
+    lineHeight: 18,
+    marginBottom: 24,
+  },
+});
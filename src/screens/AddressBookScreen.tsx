@@ -0,0 +1,267 @@
+import React, {useCallback, useEffect, useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import {useNavigation} from '@react-navigation/native';
+import {NativeStackNavigationProp} from '@react-navigation/native-stack';
+import {Address, AddressType} from '../models/Address';
+import {useAuthStore} from '../store/authStore';
+import {useAddressStore} from '../store/addressStore';
+import {embraceService} from '../services/embrace';
+import {Button, LoadingSpinner, EmptyState} from '../components';
+import {RootStackParamList} from '../navigation/types';
+
+type AddressBookNavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+const ADDRESS_TYPE_LABELS: Record<AddressType, string> = {
+  shipping: 'Shipping',
+  billing: 'Billing',
+  both: 'Shipping & Billing',
+};
+
+export const AddressBookScreen: React.FC = () => {
+  const navigation = useNavigation<AddressBookNavigationProp>();
+  const {user} = useAuthStore();
+  const {addressesByUser, loadAddresses, deleteAddress, setDefaultAddress} =
+    useAddressStore();
+  const addresses = user ? addressesByUser[user.id] || [] : [];
+
+  const [loading, setLoading] = useState(addresses.length === 0);
+  const [refreshing, setRefreshing] = useState(false);
+  const [updating, setUpdating] = useState(false);
+
+  const fetchAddresses = useCallback(async () => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      await loadAddresses(user.id);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      embraceService.logError('Failed to load addresses', {
+        'user.id': user.id,
+        error: errorMessage,
+      });
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [user, loadAddresses]);
+
+  useEffect(() => {
+    fetchAddresses();
+  }, [fetchAddresses]);
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    embraceService.addBreadcrumb('ADDRESS_BOOK_REFRESH');
+    fetchAddresses();
+  };
+
+  const runAddressAction = async (action: () => Promise<Address[]>) => {
+    setUpdating(true);
+    try {
+      await action();
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleAdd = () => {
+    embraceService.addBreadcrumb('ADD_ADDRESS_TAPPED');
+    navigation.navigate('AddressEdit', {});
+  };
+
+  const handleEdit = (address: Address) => {
+    embraceService.addBreadcrumb('EDIT_ADDRESS_TAPPED');
+    navigation.navigate('AddressEdit', {addressId: address.id});
+  };
+
+  const handleSetDefault = (address: Address) => {
+    if (!user) {
+      return;
+    }
+    runAddressAction(() => setDefaultAddress(user.id, address.id));
+  };
+
+  const handleDelete = (address: Address) => {
+    if (!user) {
+      return;
+    }
+    Alert.alert(
+      'Delete Address',
+      `Remove ${address.street}, ${address.city} from your address book?`,
+      [
+        {text: 'Keep', style: 'cancel'},
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () =>
+            runAddressAction(() => deleteAddress(user.id, address.id)),
+        },
+      ],
+    );
+  };
+
+  const renderAddress = ({item}: {item: Address}) => (
+    <View style={styles.addressCard}>
+      <View style={styles.addressHeader}>
+        <Text style={styles.addressName}>
+          {item.firstName} {item.lastName}
+        </Text>
+        {item.isDefault && (
+          <View style={styles.defaultBadge}>
+            <Text style={styles.defaultBadgeText}>Default</Text>
+          </View>
+        )}
+      </View>
+      <Text style={styles.addressLine}>{item.street}</Text>
+      {item.street2 && <Text style={styles.addressLine}>{item.street2}</Text>}
+      <Text style={styles.addressLine}>
+        {item.city}, {item.state} {item.zipCode}
+      </Text>
+      <Text style={styles.addressLine}>{item.country}</Text>
+      {item.phoneNumber && (
+        <Text style={styles.addressLine}>{item.phoneNumber}</Text>
+      )}
+      <Text style={styles.addressType}>
+        {ADDRESS_TYPE_LABELS[item.addressType]}
+      </Text>
+
+      <View style={styles.actions}>
+        <TouchableOpacity disabled={updating} onPress={() => handleEdit(item)}>
+          <Text style={styles.actionText}>Edit</Text>
+        </TouchableOpacity>
+        {!item.isDefault && (
+          <TouchableOpacity
+            disabled={updating}
+            onPress={() => handleSetDefault(item)}>
+            <Text style={styles.actionText}>Set as Default</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          disabled={updating}
+          onPress={() => handleDelete(item)}>
+          <Text style={[styles.actionText, styles.deleteText]}>Delete</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  if (loading) {
+    return <LoadingSpinner fullScreen message="Loading addresses..." />;
+  }
+
+  if (addresses.length === 0) {
+    return (
+      <EmptyState
+        title="No Saved Addresses"
+        message="Add an address to check out faster"
+        icon="📍"
+        actionTitle="Add Address"
+        onAction={handleAdd}
+      />
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={addresses}
+        keyExtractor={item => item.id}
+        renderItem={renderAddress}
+        contentContainerStyle={styles.listContainer}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+        }
+      />
+      <View style={styles.footer}>
+        <Button title="Add New Address" onPress={handleAdd} />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f8f8',
+  },
+  listContainer: {
+    padding: 16,
+  },
+  addressCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  addressHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  addressName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  defaultBadge: {
+    backgroundColor: '#000',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  defaultBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  addressLine: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+  },
+  addressType: {
+    fontSize: 13,
+    color: '#888',
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  actionText: {
+    marginRight: 20,
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  deleteText: {
+    color: '#e74c3c',
+  },
+  footer: {
+    padding: 16,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+});
@@ -0,0 +1,170 @@
+import React, {useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import {useNavigation, useRoute, RouteProp} from '@react-navigation/native';
+import {NativeStackNavigationProp} from '@react-navigation/native-stack';
+import {AddressInput, createEmptyAddress} from '../models/Address';
+import {useAuthStore} from '../store/authStore';
+import {useAddressStore} from '../store/addressStore';
+import {embraceService} from '../services/embrace';
+import {
+  AddressValidationErrors,
+  isAddressValid,
+  validateAddress,
+} from '../services/addressValidation';
+import {AddressForm, Button, EmptyState} from '../components';
+import {RootStackParamList} from '../navigation/types';
+
+type AddressEditRouteProp = RouteProp<RootStackParamList, 'AddressEdit'>;
+type AddressEditNavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+export const AddressEditScreen: React.FC = () => {
+  const navigation = useNavigation<AddressEditNavigationProp>();
+  const route = useRoute<AddressEditRouteProp>();
+  const {addressId} = route.params;
+  const {user} = useAuthStore();
+  const {getAddress, addAddress, updateAddress} = useAddressStore();
+
+  const existing =
+    user && addressId ? getAddress(user.id, addressId) : undefined;
+  const [address, setAddress] = useState<AddressInput>(
+    () => existing || createEmptyAddress(user?.firstName, user?.lastName),
+  );
+  const [errors, setErrors] = useState<AddressValidationErrors>({});
+  const [saving, setSaving] = useState(false);
+
+  const handleChange = (value: AddressInput) => {
+    setAddress(value);
+    setErrors({});
+  };
+
+  const handleSave = async () => {
+    if (!user) {
+      return;
+    }
+
+    const validationErrors = validateAddress(address);
+    if (!isAddressValid(validationErrors)) {
+      setErrors(validationErrors);
+      embraceService.trackAddressValidationFailed(
+        address.country,
+        Object.keys(validationErrors),
+      );
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (existing) {
+        await updateAddress(user.id, existing.id, address);
+      } else {
+        await addAddress(user.id, address);
+      }
+      navigation.goBack();
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (addressId && !existing) {
+    return (
+      <EmptyState
+        title="Address Not Found"
+        message="This address is no longer in your address book"
+        icon="📍"
+      />
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled">
+        <AddressForm
+          value={address}
+          errors={errors}
+          onChange={handleChange}
+          showAddressType
+        />
+
+        {/* The current default can only be replaced, not unset */}
+        {!existing?.isDefault && (
+          <TouchableOpacity
+            style={styles.defaultRow}
+            onPress={() =>
+              setAddress({...address, isDefault: !address.isDefault})
+            }>
+            <View
+              style={[
+                styles.checkbox,
+                address.isDefault && styles.checkboxChecked,
+              ]}>
+              {address.isDefault && <Text style={styles.checkmark}>✓</Text>}
+            </View>
+            <Text style={styles.defaultText}>Make this my default address</Text>
+          </TouchableOpacity>
+        )}
+
+        <Button
+          title={existing ? 'Save Changes' : 'Add Address'}
+          onPress={handleSave}
+          loading={saving}
+          disabled={saving}
+        />
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  scrollContent: {
+    padding: 24,
+  },
+  defaultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: '#ccc',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  checkboxChecked: {
+    backgroundColor: '#000',
+    borderColor: '#000',
+  },
+  checkmark: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  defaultText: {
+    fontSize: 15,
+    color: '#333',
+  },
+});
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, {useCallback} from 'react';
 import {
   View,
   Text,
@@ -7,23 +7,91 @@ import {
   TouchableOpacity,
   Alert,
 } from 'react-native';
-import {useNavigation} from '@react-navigation/native';
+import {useNavigation, useFocusEffect} from '@react-navigation/native';
 import {NativeStackNavigationProp} from '@react-navigation/native-stack';
 import {useCartStore} from '../store/cartStore';
-import {useAuthStore} from '../store/authStore';
+import {useAuthStore, usePreferredCurrency} from '../store/authStore';
 import {embraceService} from '../services/embrace';
-import {CartItemCard, Button, EmptyState} from '../components';
+import {apiService} from '../services/api';
+import {QuantityCapError} from '../services/inventory';
+import {formatPrice} from '../services/currency';
+import {
+  CartItemCard,
+  CartChangesSummary,
+  Button,
+  EmptyState,
+} from '../components';
 import {RootStackParamList} from '../navigation/types';
 
 type CartScreenNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
 export const CartScreen: React.FC = () => {
   const navigation = useNavigation<CartScreenNavigationProp>();
-  const {items, totalItems, subtotal, updateQuantity, removeItem, clearCart} =
-    useCartStore();
+  const {
+    items,
+    totalItems,
+    subtotal,
+    updateQuantity,
+    removeItem,
+    clearCart,
+    setStockLevels,
+    pendingChanges,
+    acknowledgeChanges,
+  } = useCartStore();
   const {isAuthenticated} = useAuthStore();
+  const currency = usePreferredCurrency();
+
+  const overStockItems = items.filter(
+    item => item.maxQuantity !== undefined && item.quantity > item.maxQuantity,
+  );
+
+  // Refresh stock each time the cart is shown so caps reflect other shoppers
+  useFocusEffect(
+    useCallback(() => {
+      const currentItems = useCartStore.getState().items;
+      if (currentItems.length === 0) {
+        return;
+      }
+      embraceService.addBreadcrumb('CART_STOCK_REFRESH');
+      Promise.all(
+        currentItems.map(item =>
+          apiService.fetchStockLevel(item.productId, item.selectedVariants),
+        ),
+      )
+        .then(setStockLevels)
+        .catch(error => {
+          const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error';
+          embraceService.logWarning('Failed to refresh cart stock', {
+            'error.message': errorMessage,
+          });
+        });
+    }, [setStockLevels]),
+  );
+
+  const handleUpdateQuantity = (itemId: string, quantity: number) => {
+    try {
+      updateQuantity(itemId, quantity);
+    } catch (error) {
+      if (error instanceof QuantityCapError) {
+        embraceService.addBreadcrumb('CART_QUANTITY_CAPPED');
+        Alert.alert('Quantity Limit', error.message);
+        return;
+      }
+      throw error;
+    }
+  };
 
   const handleCheckout = () => {
+    if (overStockItems.length > 0) {
+      embraceService.addBreadcrumb('CHECKOUT_BLOCKED_BY_STOCK');
+      Alert.alert(
+        'Not Enough Stock',
+        'Reduce the highlighted items to the available quantity before checking out.',
+      );
+      return;
+    }
+
     embraceService.trackCheckoutStarted();
 
     if (!isAuthenticated()) {
@@ -57,13 +125,19 @@ export const CartScreen: React.FC = () => {
 
   if (items.length === 0) {
     return (
-      <EmptyState
-        title="Your Cart is Empty"
-        message="Looks like you haven't added anything to your cart yet"
-        actionTitle="Start Shopping"
-        onAction={handleContinueShopping}
-        icon="🛒"
-      />
+      <View style={styles.container}>
+        <CartChangesSummary
+          changes={pendingChanges}
+          onAcknowledge={acknowledgeChanges}
+        />
+        <EmptyState
+          title="Your Cart is Empty"
+          message="Looks like you haven't added anything to your cart yet"
+          actionTitle="Start Shopping"
+          onAction={handleContinueShopping}
+          icon="🛒"
+        />
+      </View>
     );
   }
 
@@ -79,6 +153,12 @@ export const CartScreen: React.FC = () => {
         </TouchableOpacity>
       </View>
 
+      {/* Items repriced or removed since they were added */}
+      <CartChangesSummary
+        changes={pendingChanges}
+        onAcknowledge={acknowledgeChanges}
+      />
+
       {/* Cart Items */}
       <FlatList
         data={items}
@@ -86,7 +166,7 @@ export const CartScreen: React.FC = () => {
         renderItem={({item}) => (
           <CartItemCard
             item={item}
-            onUpdateQuantity={qty => updateQuantity(item.id, qty)}
+            onUpdateQuantity={qty => handleUpdateQuantity(item.id, qty)}
             onRemove={() => removeItem(item.id)}
           />
         )}
@@ -98,7 +178,9 @@ export const CartScreen: React.FC = () => {
       <View style={styles.summaryContainer}>
         <View style={styles.summaryRow}>
           <Text style={styles.summaryLabel}>Subtotal</Text>
-          <Text style={styles.summaryValue}>${subtotal.toFixed(2)}</Text>
+          <Text style={styles.summaryValue}>
+            {formatPrice(subtotal, currency)}
+          </Text>
         </View>
         <Text style={styles.taxNote}>
           Shipping and taxes calculated at checkout
@@ -1,4 +1,4 @@
-import React, {useState, useEffect} from 'react';
+import React, {useState, useEffect, useMemo, useRef} from 'react';
 import {
   View,
   Text,
@@ -12,74 +12,406 @@ import {
 import {useNavigation} from '@react-navigation/native';
 import {NativeStackNavigationProp} from '@react-navigation/native-stack';
 import {useCartStore} from '../store/cartStore';
-import {useAuthStore} from '../store/authStore';
+import {useAuthStore, usePreferredCurrency} from '../store/authStore';
+import {useCheckoutStore} from '../store/checkoutStore';
+import {useOrderStore} from '../store/orderStore';
+import {useAddressStore} from '../store/addressStore';
+import {usePaymentMethodStore} from '../store/paymentMethodStore';
 import {apiService} from '../services/api';
 import {embraceService} from '../services/embrace';
-import {Address} from '../models/Address';
-import {ShippingMethod} from '../models/Order';
-import {PaymentMethod} from '../models/Payment';
-import {Button, Input, LoadingSpinner} from '../components';
+import {ApiError} from '../services/transport';
+import {toReservationLines} from '../services/inventory';
+import {
+  calculateDiscounts,
+  sumDiscounts,
+  toDiscountableLines,
+} from '../services/discounts';
+import {calculateTax} from '../services/tax';
+import {
+  CardDetails,
+  CardValidationErrors,
+  detectCardBrand,
+  isCardExpired,
+  validateCard,
+} from '../services/cards';
+import {
+  PaymentCancelledError,
+  paymentProvider,
+} from '../services/paymentProvider';
+import {
+  AddressValidationErrors,
+  isAddressValid,
+  validateAddress,
+} from '../services/addressValidation';
+import {
+  convertAmount,
+  formatOrderAmount,
+  formatPrice,
+  getExchangeRate,
+  getOrderCurrency,
+} from '../services/currency';
+import {BASE_CURRENCY} from '../config/currency.config';
+import {PAYMENT_DECLINES} from '../config/payment.config';
+import {
+  Address,
+  AddressInput,
+  createEmptyAddress,
+  servesAddressType,
+} from '../models/Address';
+import {Order, OrderRequest, ShippingMethod} from '../models/Order';
+import {
+  PAYMENT_TYPE_LABELS,
+  PaymentChallengeOutcome,
+  PaymentMethod,
+  PaymentRecoveryAction,
+  PaymentResult,
+  WalletType,
+  formatPaymentMethod,
+} from '../models/Payment';
+import {Promotion} from '../models/Promotion';
+import {
+  AddressForm,
+  Button,
+  CardForm,
+  Input,
+  LoadingSpinner,
+  CartChangesSummary,
+  PaymentChallenge,
+} from '../components';
 import {RootStackParamList} from '../navigation/types';
-import {mockAddresses, mockShippingMethods} from '../services/mockData';
 
 type CheckoutNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
 type CheckoutStep = 'shipping' | 'payment' | 'review' | 'confirmation';
 
+// How a 3-D Secure challenge ended: the shopper's answer, or 'abandoned'
+// when checkout closed while the challenge was still showing
+type ChallengeResult = PaymentChallengeOutcome | 'abandoned';
+
+const STEP_NUMBERS: Record<CheckoutStep, number> = {
+  shipping: 1,
+  payment: 2,
+  review: 3,
+  confirmation: 4,
+};
+
+const EMPTY_CARD: CardDetails = {number: '', expiry: '', cvc: '', holderName: ''};
+
+const RECOVERY_ACTION_TITLES: Record<
+  Exclude<PaymentRecoveryAction, 'retry_later'>,
+  string
+> = {
+  edit_card: 'Update Card',
+  choose_another_method: 'Use Another Method',
+};
+
+// Selection value for paying with a card that is not in the vault yet
+const NEW_CARD = 'new-card';
+
+// Wallets offered on this device; selected by their payment type
+const WALLETS = paymentProvider.getAvailableWallets();
+
+const isWallet = (id: string | null): id is WalletType =>
+  WALLETS.some(type => type === id);
+
+// Best effort: a reservation that is not released expires on its own
+const releaseReservation = (reservationId: string) => {
+  apiService.releaseReservation(reservationId).catch(() => undefined);
+};
+
 export const CheckoutScreen: React.FC = () => {
   const navigation = useNavigation<CheckoutNavigationProp>();
-  const {items, subtotal, clearCart} = useCartStore();
+  const {items, subtotal, clearCart, pendingChanges, acknowledgeChanges} =
+    useCartStore();
   const {user} = useAuthStore();
+  const currency = usePreferredCurrency();
+  const {beginAttempt, completeAttempt, setReservation} = useCheckoutStore();
+  const {saveOrder} = useOrderStore();
+  const {addressesByUser, loadAddresses, addAddress} = useAddressStore();
+  const {methodsByUser, loadPaymentMethods, savePaymentMethod} =
+    usePaymentMethodStore();
 
   const [currentStep, setCurrentStep] = useState<CheckoutStep>('shipping');
   const [loading, setLoading] = useState(false);
+  const currentStepRef = useRef<CheckoutStep>('shipping');
+  currentStepRef.current = currentStep;
 
   // Shipping State
   const [shippingAddress, setShippingAddress] = useState<Address | null>(null);
   const [shippingMethod, setShippingMethod] = useState<ShippingMethod | null>(null);
-  const [addresses] = useState<Address[]>(mockAddresses);
-  const [shippingMethods] = useState<ShippingMethod[]>(mockShippingMethods);
+  const [shippingMethods, setShippingMethods] = useState<ShippingMethod[]>([]);
+  const [quotingShipping, setQuotingShipping] = useState(false);
   const [showNewAddressForm, setShowNewAddressForm] = useState(false);
-  const [newAddress, setNewAddress] = useState({
-    firstName: user?.firstName || '',
-    lastName: user?.lastName || '',
-    street: '',
-    city: '',
-    state: '',
-    zipCode: '',
-    country: 'United States',
-  });
+  const [newAddress, setNewAddress] = useState<AddressInput>(() =>
+    createEmptyAddress(user?.firstName, user?.lastName),
+  );
+  const [newAddressErrors, setNewAddressErrors] =
+    useState<AddressValidationErrors>({});
+  const [savingAddress, setSavingAddress] = useState(false);
 
   // Payment State
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod | null>(null);
-  const [cardNumber, setCardNumber] = useState('');
-  const [cardExpiry, setCardExpiry] = useState('');
-  const [cardCVC, setCardCVC] = useState('');
-  const [cardName, setCardName] = useState('');
+  const [selectedMethodId, setSelectedMethodId] = useState<string | null>(null);
+  // A card tokenized for this order only, kept so going back to the payment
+  // step does not mean typing it in again
+  const [oneTimeMethod, setOneTimeMethod] = useState<PaymentMethod | null>(null);
+  const [card, setCard] = useState<CardDetails>(EMPTY_CARD);
+  const [cardErrors, setCardErrors] = useState<CardValidationErrors>({});
+  const [saveCard, setSaveCard] = useState(true);
+  const [billingSameAsShipping, setBillingSameAsShipping] = useState(true);
+  const [billingAddress, setBillingAddress] = useState<Address | null>(null);
+  const [showNewBillingForm, setShowNewBillingForm] = useState(false);
+  const [newBillingAddress, setNewBillingAddress] = useState<AddressInput>(() =>
+    createEmptyAddress(user?.firstName, user?.lastName, 'billing'),
+  );
+  const [newBillingErrors, setNewBillingErrors] =
+    useState<AddressValidationErrors>({});
+
+  // Promotion State
+  const [promoCode, setPromoCode] = useState('');
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [applyingPromo, setApplyingPromo] = useState(false);
 
   // Order State
   const [orderId, setOrderId] = useState<string | null>(null);
   const [orderNumber, setOrderNumber] = useState<string | null>(null);
+  // The order whose payment is waiting on a 3-D Secure challenge
+  const [challengeOrder, setChallengeOrder] = useState<Order | null>(null);
+  const challengeResolverRef = useRef<
+    ((result: ChallengeResult) => void) | null
+  >(null);
 
-  const tax = subtotal * 0.08;
   const shippingCost = shippingMethod?.cost || 0;
-  const total = subtotal + tax + shippingCost;
+  const discountableLines = toDiscountableLines(items);
+  const discounts = calculateDiscounts(
+    promotions,
+    discountableLines,
+    shippingCost,
+  );
+  const discount = sumDiscounts(discounts);
+  const taxBreakdown = shippingAddress
+    ? calculateTax(shippingAddress, discountableLines, shippingCost, discounts)
+    : null;
+  const tax = taxBreakdown?.total || 0;
+  const total = subtotal - discount + tax + shippingCost;
+
+  const savedAddresses = useMemo(
+    () => (user ? addressesByUser[user.id] || [] : []),
+    [user, addressesByUser],
+  );
+  const addresses = useMemo(
+    () =>
+      savedAddresses.filter(address => servesAddressType(address, 'shipping')),
+    [savedAddresses],
+  );
+  const billingAddresses = useMemo(
+    () =>
+      savedAddresses.filter(address => servesAddressType(address, 'billing')),
+    [savedAddresses],
+  );
+  const savedMethods = useMemo(
+    () => (user ? methodsByUser[user.id] || [] : []),
+    [user, methodsByUser],
+  );
+  const paymentOptions = oneTimeMethod
+    ? [...savedMethods, oneTimeMethod]
+    : savedMethods;
+  const usableMethods = paymentOptions.filter(
+    m =>
+      !m.cardInfo ||
+      !isCardExpired(m.cardInfo.expiryMonth, m.cardInfo.expiryYear),
+  );
+  // Until the shopper picks, pay with the default card as soon as it loads
+  const activeMethodId =
+    selectedMethodId === NEW_CARD ||
+    isWallet(selectedMethodId) ||
+    usableMethods.some(m => m.id === selectedMethodId)
+      ? selectedMethodId
+      : usableMethods.find(m => m.isDefault)?.id ??
+        usableMethods[0]?.id ??
+        NEW_CARD;
+  const orderBillingAddress = billingSameAsShipping
+    ? shippingAddress
+    : billingAddress;
 
   useEffect(() => {
+    const {startTrace, endTrace} = useCheckoutStore.getState();
+    const challengeResolver = challengeResolverRef;
+    startTrace();
     embraceService.trackCheckoutStep(1, 'SHIPPING');
-    if (addresses.length > 0) {
-      const defaultAddress = addresses.find(a => a.isDefault) || addresses[0];
-      setShippingAddress(defaultAddress);
+    return () => {
+      // A trace still open when checkout unmounts was abandoned, and so is
+      // a challenge still waiting for the shopper
+      challengeResolver.current?.('abandoned');
+      challengeResolver.current = null;
+      endTrace(false);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!user) {
+      return;
     }
-    if (shippingMethods.length > 0) {
-      setShippingMethod(shippingMethods[0]);
+    loadAddresses(user.id).catch(error => {
+      embraceService.logWarning('Checkout address load failed', {
+        'error.message':
+          error instanceof Error ? error.message : 'Unknown error',
+      });
+    });
+  }, [user, loadAddresses]);
+
+  useEffect(() => {
+    if (!user || user.isGuest) {
+      return;
     }
-  }, []);
+    loadPaymentMethods(user.id).catch(error => {
+      embraceService.logWarning('Checkout payment method load failed', {
+        'error.message':
+          error instanceof Error ? error.message : 'Unknown error',
+      });
+    });
+  }, [user, loadPaymentMethods]);
+
+  // Start from the default address, and keep the selection in step with the
+  // address book as it loads
+  useEffect(() => {
+    setShippingAddress(
+      current =>
+        addresses.find(a => a.id === current?.id) ||
+        addresses.find(a => a.isDefault) ||
+        addresses[0] ||
+        null,
+    );
+  }, [addresses]);
+
+  useEffect(() => {
+    setBillingAddress(
+      current =>
+        billingAddresses.find(a => a.id === current?.id) ||
+        billingAddresses.find(a => a.isDefault) ||
+        billingAddresses[0] ||
+        null,
+    );
+  }, [billingAddresses]);
+
+  // Re-quote shipping whenever the destination or the parcel changes
+  useEffect(() => {
+    if (!shippingAddress) {
+      return;
+    }
+    let active = true;
+    setQuotingShipping(true);
+
+    apiService
+      .fetchShippingQuotes(
+        shippingAddress,
+        items.map(item => ({
+          productId: item.productId,
+          quantity: item.quantity,
+        })),
+      )
+      .then(quotes => {
+        if (!active) {
+          return;
+        }
+        setShippingMethods(quotes);
+        // Keep the shopper's choice while it can still deliver
+        setShippingMethod(
+          current =>
+            quotes.find(q => q.id === current?.id && q.isAvailable) ||
+            quotes.find(q => q.isAvailable) ||
+            null,
+        );
+      })
+      .catch(error => {
+        embraceService.logWarning('Shipping quote failed', {
+          'error.message':
+            error instanceof Error ? error.message : 'Unknown error',
+        });
+        if (active) {
+          setShippingMethods([]);
+          setShippingMethod(null);
+        }
+      })
+      .finally(() => {
+        if (active) {
+          setQuotingShipping(false);
+        }
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [shippingAddress, items]);
+
+  // Re-check prices and stock, then hold the cart's stock for the length of
+  // checkout. Leaving checkout without placing an order releases it.
+  useEffect(() => {
+    let active = true;
+
+    const reserveStock = async () => {
+      const staleReservationId = useCheckoutStore.getState().reservationId;
+      if (staleReservationId) {
+        releaseReservation(staleReservationId);
+        setReservation(null);
+      }
+
+      await useCartStore.getState().revalidate('checkout');
+      if (!active) {
+        return;
+      }
+      if (useCartStore.getState().items.length === 0) {
+        Alert.alert(
+          'Cart Unavailable',
+          'None of the items in your cart can be purchased right now.',
+          [{text: 'Back to Cart', onPress: () => navigation.goBack()}],
+        );
+        return;
+      }
+
+      try {
+        const reservation = await apiService.reserveInventory(
+          toReservationLines(useCartStore.getState().items),
+        );
+        if (!active) {
+          releaseReservation(reservation.id);
+          return;
+        }
+        setReservation(reservation.id);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error';
+        embraceService.logWarning('Checkout stock reservation failed', {
+          'error.message': errorMessage,
+        });
+        // Without a reservation stock is still checked when the order is created
+        if (active && error instanceof ApiError && error.statusCode === 409) {
+          Alert.alert('Not Enough Stock', errorMessage, [
+            {text: 'Back to Cart', onPress: () => navigation.goBack()},
+          ]);
+        }
+      }
+    };
+
+    reserveStock();
+
+    return () => {
+      active = false;
+      const {reservationId} = useCheckoutStore.getState();
+      if (reservationId) {
+        embraceService.trackCheckoutAbandoned(
+          STEP_NUMBERS[currentStepRef.current],
+        );
+        releaseReservation(reservationId);
+        setReservation(null);
+      }
+    };
+  }, [navigation, setReservation]);
 
   const handleNextStep = async () => {
     switch (currentStep) {
       case 'shipping':
-        if (!shippingAddress || !shippingMethod) {
+        if (!shippingAddress || !shippingMethod?.isAvailable) {
           Alert.alert('Error', 'Please select shipping address and method');
           return;
         }
@@ -88,80 +420,325 @@ export const CheckoutScreen: React.FC = () => {
         break;
 
       case 'payment':
-        if (!cardNumber || !cardExpiry || !cardCVC || !cardName) {
-          Alert.alert('Error', 'Please fill in all payment details');
+        if (!orderBillingAddress) {
+          Alert.alert('Error', 'Please select a billing address');
+          return;
+        }
+        const payment = await resolvePaymentMethod();
+        if (!payment) {
           return;
         }
-        const payment: PaymentMethod = {
-          id: 'payment-' + Date.now(),
-          type: 'creditCard',
-          cardInfo: {
-            last4: cardNumber.slice(-4),
-            brand: 'Visa',
-            expiryMonth: parseInt(cardExpiry.split('/')[0]),
-            expiryYear: parseInt('20' + cardExpiry.split('/')[1]),
-            holderName: cardName,
-          },
-          isDefault: false,
-        };
         setPaymentMethod(payment);
         embraceService.trackCheckoutStep(3, 'REVIEW');
         setCurrentStep('review');
         break;
 
       case 'review':
-        await processOrder();
+        // The shopper must see what changed before being charged for it
+        if (pendingChanges.length > 0) {
+          Alert.alert(
+            'Your Cart Changed',
+            'Please review the changes to your cart before placing your order.',
+          );
+          return;
+        }
+        // Wallets approve an exact amount, so they are only authorized here,
+        // once promotions, tax and shipping are final
+        const chargedMethod =
+          paymentMethod && isWallet(paymentMethod.type)
+            ? await authorizeWallet(paymentMethod.type)
+            : paymentMethod;
+        if (!chargedMethod) {
+          return;
+        }
+        await processOrder(chargedMethod);
         break;
     }
   };
 
-  const processOrder = async () => {
+  // Wallets approve each payment in their own sheet for the order total, so
+  // an authorization is never reused or saved
+  const authorizeWallet = async (
+    type: WalletType,
+  ): Promise<PaymentMethod | null> => {
+    embraceService.addBreadcrumb(`WALLET_SELECTED_${type}`);
+    setLoading(true);
+    try {
+      const authorized = await paymentProvider.authorizeWallet(type, {
+        amount: convertAmount(total, BASE_CURRENCY, currency),
+        currency,
+        payer: {
+          email: user?.email ?? '',
+          displayName: user ? `${user.firstName} ${user.lastName}` : '',
+        },
+      });
+      return {...authorized, id: authorized.token, isDefault: false};
+    } catch (error) {
+      if (!(error instanceof PaymentCancelledError)) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error';
+        Alert.alert('Payment Not Authorized', errorMessage);
+      }
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The wallet or saved card the shopper picked, or the new card exchanged
+  // for a provider token. Raw card details are dropped once tokenized.
+  // Wallets come back without a token until they are authorized on review.
+  const resolvePaymentMethod = async (): Promise<PaymentMethod | null> => {
+    if (isWallet(activeMethodId)) {
+      return {id: activeMethodId, type: activeMethodId, isDefault: false};
+    }
+    const selected = usableMethods.find(m => m.id === activeMethodId);
+    if (selected) {
+      return selected;
+    }
+
+    const errors = validateCard(card);
+    if (Object.keys(errors).length > 0) {
+      setCardErrors(errors);
+      embraceService.trackCardValidationFailed(
+        detectCardBrand(card.number)?.brand ?? 'unknown',
+        Object.keys(errors),
+      );
+      return null;
+    }
+
+    setLoading(true);
+    try {
+      const tokenized = await paymentProvider.tokenizeCard(card);
+      let method: PaymentMethod;
+      if (user && !user.isGuest && saveCard) {
+        method = await savePaymentMethod(
+          user.id,
+          tokenized,
+          savedMethods.length === 0,
+        );
+        embraceService.addBreadcrumb('PAYMENT_METHOD_SAVED');
+      } else {
+        method = {...tokenized, id: tokenized.token, isDefault: false};
+        setOneTimeMethod(method);
+      }
+      setSelectedMethodId(method.id);
+      setCard(EMPTY_CARD);
+      return method;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Card Not Accepted', errorMessage);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApplyPromoCode = async () => {
+    const code = promoCode.trim();
+    if (!code) {
+      return;
+    }
+
+    setApplyingPromo(true);
+    try {
+      const {promotion} = await apiService.validatePromoCode(
+        code,
+        discountableLines,
+        promotions.map(p => p.code),
+        shippingCost,
+        currency,
+      );
+      setPromotions(current => [...current, promotion]);
+      setPromoCode('');
+    } catch (error) {
+      // Unknown and inapplicable codes carry a message meant for the shopper
+      const rejected =
+        error instanceof ApiError &&
+        (error.statusCode === 404 || error.statusCode === 422);
+      Alert.alert(
+        'Promo Code',
+        rejected
+          ? error.message
+          : 'We could not check this promo code. Please try again.',
+      );
+    } finally {
+      setApplyingPromo(false);
+    }
+  };
+
+  const handleRemovePromoCode = (code: string) => {
+    embraceService.addBreadcrumb('PROMO_CODE_REMOVED');
+    setPromotions(current => current.filter(p => p.code !== code));
+  };
+
+  // Explains a failed payment and offers the way out that fits the decline
+  const showPaymentRecovery = (
+    result: PaymentResult,
+    declinedMethod: PaymentMethod,
+  ) => {
+    const decline = result.declineCode
+      ? PAYMENT_DECLINES[result.declineCode]
+      : undefined;
+    const message =
+      decline?.message ||
+      result.errorMessage ||
+      'Your payment could not be processed.';
+    const recovery = decline?.recovery ?? 'choose_another_method';
+
+    if (recovery === 'retry_later') {
+      Alert.alert(
+        'Payment Unavailable',
+        `${message} Your card has not been charged. Please try again in a few minutes.`,
+      );
+      return;
+    }
+
+    Alert.alert('Payment Declined', message, [
+      {text: 'Cancel', style: 'cancel'},
+      {
+        text: RECOVERY_ACTION_TITLES[recovery],
+        onPress: () => {
+          embraceService.addBreadcrumb(
+            `PAYMENT_RECOVERY_${recovery.toUpperCase()}`,
+          );
+          if (oneTimeMethod?.id === declinedMethod.id) {
+            setOneTimeMethod(null);
+          }
+          // Saved cards cannot be edited, so the card is entered again
+          setSelectedMethodId(NEW_CARD);
+          if (recovery === 'edit_card') {
+            setCard({
+              ...EMPTY_CARD,
+              holderName: declinedMethod.cardInfo?.holderName ?? '',
+            });
+            setCardErrors(
+              decline?.cardField ? {[decline.cardField]: message} : {},
+            );
+          }
+          embraceService.trackCheckoutStep(2, 'PAYMENT');
+          setCurrentStep('payment');
+        },
+      },
+    ]);
+  };
+
+  // Shows the card issuer's challenge and resolves with the shopper's answer,
+  // or with 'abandoned' if checkout unmounts first
+  const presentChallenge = (order: Order) =>
+    new Promise<ChallengeResult>(resolve => {
+      challengeResolverRef.current = resolve;
+      setChallengeOrder(order);
+    });
+
+  const handleChallengeComplete = (outcome: PaymentChallengeOutcome) => {
+    setChallengeOrder(null);
+    challengeResolverRef.current?.(outcome);
+    challengeResolverRef.current = null;
+  };
+
+  const processOrder = async (chargedMethod: PaymentMethod) => {
     setLoading(true);
     embraceService.addBreadcrumb('PLACE_ORDER_INITIATED');
 
-    // Generate a temporary order ID for tracking (will be replaced by server-generated ID)
-    const tempOrderId = `temp-order-${Date.now()}`;
+    const orderRequest: OrderRequest = {
+      userId: user?.id || 'guest',
+      items: items.map((item, index) => ({
+        id: item.id,
+        productId: item.productId,
+        productName: item.product.name,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        selectedVariants: item.selectedVariants,
+        imageUrl: item.product.imageUrls[0],
+        taxRate: taxBreakdown?.lines[index].taxRate,
+        tax: taxBreakdown?.lines[index].tax,
+      })),
+      shippingAddress: shippingAddress!,
+      billingAddress: orderBillingAddress!,
+      paymentMethod: chargedMethod,
+      subtotal,
+      tax,
+      shippingTax: taxBreakdown?.shippingTax,
+      shipping: shippingCost,
+      shippingMethodId: shippingMethod?.id,
+      discount,
+      discounts,
+      total,
+      currency,
+    };
+
+    // One idempotency key per checkout attempt: a retried or double-tapped
+    // submit of the same order returns the original order and charge
+    const idempotencyKey = beginAttempt(orderRequest);
 
     try {
-      // Process payment with order tracking
-      const paymentResult = await apiService.processPayment(
-        total,
-        'USD',
-        tempOrderId,
+      // Create the order in pending state so payment is taken against its real id
+      const order = await apiService.createOrder({
+        ...orderRequest,
+        reservationId: useCheckoutStore.getState().reservationId ?? undefined,
+      }, `${idempotencyKey}:order`);
+      // Creating the order consumed the reservation
+      setReservation(null);
+      saveOrder(order);
+
+      let paymentResult = await apiService.processPayment(
+        order,
+        getOrderCurrency(order),
+        `${idempotencyKey}:payment`,
+        useCheckoutStore.getState().traceSpanId,
       );
+      let abandoned = false;
+      if (paymentResult.status === 'pending' && paymentResult.challenge) {
+        const result = await presentChallenge(order);
+        abandoned = result === 'abandoned';
+        // An abandoned challenge is cancelled so the backend cancels the order
+        paymentResult = await apiService.completePaymentChallenge(
+          order,
+          paymentResult.paymentIntentId!,
+          result === 'abandoned' ? 'cancelled' : result,
+          `${idempotencyKey}:challenge`,
+        );
+      }
 
-      if (paymentResult.success) {
-        // Create order
-        const order = await apiService.createOrder({
-          userId: user?.id || 'guest',
-          items: items.map(item => ({
-            id: item.id,
-            productId: item.productId,
-            productName: item.product.name,
-            quantity: item.quantity,
-            unitPrice: item.unitPrice,
-            selectedVariants: item.selectedVariants,
-            imageUrl: item.product.imageUrls[0],
-          })),
-          shippingAddress: shippingAddress!,
-          billingAddress: shippingAddress!,
-          paymentMethod: paymentMethod!,
-          subtotal,
-          tax,
-          shipping: shippingCost,
-          total,
-        });
+      // The backend moves the order along with its payment: paid orders
+      // start processing and failed payments cancel theirs
+      const settledOrder = (await apiService.fetchOrderById(order.id)) ?? order;
 
-        setOrderId(order.id);
-        setOrderNumber(order.orderNumber);
-        embraceService.trackCheckoutCompleted(order.id, total);
-        clearCart();
-        setCurrentStep('confirmation');
+      if (paymentResult.status !== 'succeeded') {
+        // Without a payment intent the order is still pending and holds its stock
+        saveOrder(
+          settledOrder.status === 'pending'
+            ? await apiService.cancelOrder(order.id, 'Payment failed')
+            : settledOrder,
+        );
+        // The cancelled order cannot be paid again, so the next submit starts a new attempt
+        completeAttempt();
+        // Nobody is left on checkout to read an alert
+        if (!abandoned) {
+          showPaymentRecovery(paymentResult, order.paymentMethod);
+        }
+        return;
       }
+
+      saveOrder(settledOrder);
+
+      setOrderId(order.id);
+      setOrderNumber(order.orderNumber);
+      embraceService.trackCheckoutCompleted(order.id, total);
+      completeAttempt();
+      clearCart();
+      setCurrentStep('confirmation');
+      useCheckoutStore.getState().endTrace(true);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       embraceService.logError('Order processing failed', {error: errorMessage});
-      Alert.alert('Error', 'Failed to process your order. Please try again.');
+      if (error instanceof ApiError && error.statusCode === 409) {
+        Alert.alert('Not Enough Stock', errorMessage);
+      } else {
+        Alert.alert('Error', 'Failed to process your order. Please try again.');
+      }
     } finally {
       setLoading(false);
     }
@@ -216,43 +793,183 @@ export const CheckoutScreen: React.FC = () => {
     );
   };
 
+  // Validates a new address and saves it to the shopper's address book
+  const saveNewAddress = async (
+    input: AddressInput,
+    setErrors: (errors: AddressValidationErrors) => void,
+  ): Promise<Address | null> => {
+    if (!user) {
+      return null;
+    }
+
+    const errors = validateAddress(input);
+    if (!isAddressValid(errors)) {
+      setErrors(errors);
+      embraceService.trackAddressValidationFailed(
+        input.country,
+        Object.keys(errors),
+      );
+      return null;
+    }
+
+    setSavingAddress(true);
+    try {
+      return await addAddress(user.id, input);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Error', errorMessage);
+      return null;
+    } finally {
+      setSavingAddress(false);
+    }
+  };
+
+  const handleSaveShippingAddress = async () => {
+    const saved = await saveNewAddress(newAddress, setNewAddressErrors);
+    if (saved) {
+      setShippingAddress(saved);
+      setShowNewAddressForm(false);
+      setNewAddress(createEmptyAddress(user?.firstName, user?.lastName));
+    }
+  };
+
+  const handleSaveBillingAddress = async () => {
+    const saved = await saveNewAddress(newBillingAddress, setNewBillingErrors);
+    if (saved) {
+      setBillingAddress(saved);
+      setShowNewBillingForm(false);
+      setNewBillingAddress(
+        createEmptyAddress(user?.firstName, user?.lastName, 'billing'),
+      );
+    }
+  };
+
+  const handleToggleBillingSameAsShipping = () => {
+    embraceService.addBreadcrumb(
+      billingSameAsShipping
+        ? 'BILLING_ADDRESS_SEPARATE'
+        : 'BILLING_SAME_AS_SHIPPING',
+    );
+    setBillingSameAsShipping(!billingSameAsShipping);
+  };
+
+  const renderAddressOption = (
+    address: Address,
+    selected: Address | null,
+    onSelect: (address: Address) => void,
+  ) => (
+    <TouchableOpacity
+      key={address.id}
+      style={[
+        styles.addressCard,
+        selected?.id === address.id && styles.addressCardSelected,
+      ]}
+      onPress={() => onSelect(address)}>
+      <View style={styles.addressRadio}>
+        <View
+          style={[
+            styles.radioOuter,
+            selected?.id === address.id && styles.radioSelected,
+          ]}>
+          {selected?.id === address.id && <View style={styles.radioInner} />}
+        </View>
+      </View>
+      <View style={styles.addressInfo}>
+        <Text style={styles.addressName}>
+          {address.firstName} {address.lastName}
+        </Text>
+        <Text style={styles.addressLine}>{address.street}</Text>
+        {address.street2 && (
+          <Text style={styles.addressLine}>{address.street2}</Text>
+        )}
+        <Text style={styles.addressLine}>
+          {address.city}, {address.state} {address.zipCode}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  const renderCheckbox = (
+    label: string,
+    checked: boolean,
+    onPress: () => void,
+  ) => (
+    <TouchableOpacity style={styles.checkboxRow} onPress={onPress}>
+      <View style={[styles.checkbox, checked && styles.checkboxChecked]}>
+        {checked && <Text style={styles.checkmark}>✓</Text>}
+      </View>
+      <Text style={styles.checkboxLabel}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderSimpleOption = (id: string, label: string) => (
+    <TouchableOpacity
+      key={id}
+      style={[
+        styles.addressCard,
+        activeMethodId === id && styles.addressCardSelected,
+      ]}
+      onPress={() => setSelectedMethodId(id)}>
+      <View style={styles.addressRadio}>
+        <View
+          style={[
+            styles.radioOuter,
+            activeMethodId === id && styles.radioSelected,
+          ]}>
+          {activeMethodId === id && <View style={styles.radioInner} />}
+        </View>
+      </View>
+      <View style={styles.addressInfo}>
+        <Text style={styles.addressName}>{label}</Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  const renderPaymentOption = (method: PaymentMethod) => {
+    const selected = activeMethodId === method.id;
+    const expired =
+      !!method.cardInfo &&
+      isCardExpired(method.cardInfo.expiryMonth, method.cardInfo.expiryYear);
+
+    return (
+      <TouchableOpacity
+        key={method.id}
+        style={[
+          styles.addressCard,
+          selected && styles.addressCardSelected,
+          expired && styles.paymentOptionDisabled,
+        ]}
+        onPress={() => setSelectedMethodId(method.id)}
+        disabled={expired}>
+        <View style={styles.addressRadio}>
+          <View style={[styles.radioOuter, selected && styles.radioSelected]}>
+            {selected && <View style={styles.radioInner} />}
+          </View>
+        </View>
+        <View style={styles.addressInfo}>
+          <Text style={styles.addressName}>
+            {method.cardInfo?.brand} •••• {method.cardInfo?.last4}
+          </Text>
+          <Text style={styles.addressLine}>
+            {expired ? 'Expired' : 'Expires'}{' '}
+            {String(method.cardInfo?.expiryMonth).padStart(2, '0')}/
+            {method.cardInfo?.expiryYear}
+            {method.isDefault && ' · Default'}
+            {method.id === oneTimeMethod?.id && ' · This order only'}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
   const renderShippingStep = () => (
     <ScrollView style={styles.stepContent}>
       <Text style={styles.sectionTitle}>Shipping Address</Text>
 
-      {addresses.map(address => (
-        <TouchableOpacity
-          key={address.id}
-          style={[
-            styles.addressCard,
-            shippingAddress?.id === address.id && styles.addressCardSelected,
-          ]}
-          onPress={() => setShippingAddress(address)}>
-          <View style={styles.addressRadio}>
-            <View
-              style={[
-                styles.radioOuter,
-                shippingAddress?.id === address.id && styles.radioSelected,
-              ]}>
-              {shippingAddress?.id === address.id && (
-                <View style={styles.radioInner} />
-              )}
-            </View>
-          </View>
-          <View style={styles.addressInfo}>
-            <Text style={styles.addressName}>
-              {address.firstName} {address.lastName}
-            </Text>
-            <Text style={styles.addressLine}>{address.street}</Text>
-            {address.street2 && (
-              <Text style={styles.addressLine}>{address.street2}</Text>
-            )}
-            <Text style={styles.addressLine}>
-              {address.city}, {address.state} {address.zipCode}
-            </Text>
-          </View>
-        </TouchableOpacity>
-      ))}
+      {addresses.map(address =>
+        renderAddressOption(address, shippingAddress, setShippingAddress),
+      )}
 
       <TouchableOpacity
         style={styles.addNewButton}
@@ -264,65 +981,66 @@ export const CheckoutScreen: React.FC = () => {
 
       {showNewAddressForm && (
         <View style={styles.newAddressForm}>
-          <View style={styles.row}>
-            <Input
-              label="First Name"
-              value={newAddress.firstName}
-              onChangeText={v => setNewAddress({...newAddress, firstName: v})}
-              containerStyle={styles.halfInput}
-            />
-            <Input
-              label="Last Name"
-              value={newAddress.lastName}
-              onChangeText={v => setNewAddress({...newAddress, lastName: v})}
-              containerStyle={styles.halfInput}
-            />
-          </View>
-          <Input
-            label="Street Address"
-            value={newAddress.street}
-            onChangeText={v => setNewAddress({...newAddress, street: v})}
+          <AddressForm
+            value={newAddress}
+            errors={newAddressErrors}
+            onChange={value => {
+              setNewAddress(value);
+              setNewAddressErrors({});
+            }}
           />
-          <View style={styles.row}>
-            <Input
-              label="City"
-              value={newAddress.city}
-              onChangeText={v => setNewAddress({...newAddress, city: v})}
-              containerStyle={styles.halfInput}
-            />
-            <Input
-              label="State"
-              value={newAddress.state}
-              onChangeText={v => setNewAddress({...newAddress, state: v})}
-              containerStyle={styles.halfInput}
-            />
-          </View>
-          <Input
-            label="ZIP Code"
-            value={newAddress.zipCode}
-            onChangeText={v => setNewAddress({...newAddress, zipCode: v})}
-            keyboardType="numeric"
+          <Button
+            title="Save Address"
+            onPress={handleSaveShippingAddress}
+            loading={savingAddress}
+            disabled={savingAddress}
           />
         </View>
       )}
 
       <Text style={[styles.sectionTitle, {marginTop: 24}]}>Shipping Method</Text>
 
+      {quotingShipping && shippingMethods.length === 0 && (
+        <LoadingSpinner message="Getting shipping rates..." />
+      )}
+      {!quotingShipping && shippingAddress && shippingMethods.length === 0 && (
+        <Text style={styles.shippingMethodDesc}>
+          Shipping rates are unavailable right now. Please try again.
+        </Text>
+      )}
+
       {shippingMethods.map(method => (
         <TouchableOpacity
           key={method.id}
           style={[
             styles.shippingMethodCard,
             shippingMethod?.id === method.id && styles.shippingMethodSelected,
+            !method.isAvailable && styles.shippingMethodUnavailable,
           ]}
+          disabled={!method.isAvailable}
           onPress={() => setShippingMethod(method)}>
           <View style={styles.shippingMethodInfo}>
             <Text style={styles.shippingMethodName}>{method.name}</Text>
-            <Text style={styles.shippingMethodDesc}>{method.description}</Text>
+            <Text style={styles.shippingMethodDesc}>
+              {method.isAvailable
+                ? method.description
+                : method.unavailableReason}
+            </Text>
+            {method.estimatedDelivery && (
+              <Text style={styles.shippingMethodDesc}>
+                Arrives by{' '}
+                {new Date(method.estimatedDelivery).toLocaleDateString(
+                  undefined,
+                  {weekday: 'short', month: 'short', day: 'numeric'},
+                )}
+              </Text>
+            )}
           </View>
-          <Text style={styles.shippingMethodPrice}>
-            {method.cost === 0 ? 'FREE' : `$${method.cost.toFixed(2)}`}
-          </Text>
+          {method.isAvailable && (
+            <Text style={styles.shippingMethodPrice}>
+              {method.cost === 0 ? 'FREE' : formatPrice(method.cost, currency)}
+            </Text>
+          )}
         </TouchableOpacity>
       ))}
     </ScrollView>
@@ -333,57 +1051,101 @@ export const CheckoutScreen: React.FC = () => {
       style={styles.stepContent}
       behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
       <ScrollView>
-        <Text style={styles.sectionTitle}>Payment Details</Text>
-
-        <Input
-          label="Cardholder Name"
-          value={cardName}
-          onChangeText={setCardName}
-          placeholder="John Doe"
-          autoCapitalize="words"
-        />
-        <Input
-          label="Card Number"
-          value={cardNumber}
-          onChangeText={text => {
-            const cleaned = text.replace(/\D/g, '').slice(0, 16);
-            setCardNumber(cleaned);
-          }}
-          placeholder="4242 4242 4242 4242"
-          keyboardType="numeric"
-        />
-        <View style={styles.row}>
-          <Input
-            label="Expiry (MM/YY)"
-            value={cardExpiry}
-            onChangeText={text => {
-              const cleaned = text.replace(/\D/g, '').slice(0, 4);
-              if (cleaned.length >= 2) {
-                setCardExpiry(cleaned.slice(0, 2) + '/' + cleaned.slice(2));
-              } else {
-                setCardExpiry(cleaned);
-              }
-            }}
-            placeholder="12/25"
-            keyboardType="numeric"
-            containerStyle={styles.halfInput}
-          />
-          <Input
-            label="CVC"
-            value={cardCVC}
-            onChangeText={text => setCardCVC(text.replace(/\D/g, '').slice(0, 4))}
-            placeholder="123"
-            keyboardType="numeric"
-            secureTextEntry
-            containerStyle={styles.halfInput}
-          />
-        </View>
+        <Text style={styles.sectionTitle}>Payment Method</Text>
 
-        <View style={styles.testCardInfo}>
-          <Text style={styles.testCardTitle}>Test Card Numbers:</Text>
-          <Text style={styles.testCardText}>Success: 4242 4242 4242 4242</Text>
-          <Text style={styles.testCardText}>Any expiry and CVC</Text>
-        </View>
+        {WALLETS.map(type =>
+          renderSimpleOption(type, PAYMENT_TYPE_LABELS[type]),
+        )}
+
+        {paymentOptions.map(renderPaymentOption)}
+
+        {(WALLETS.length > 0 || paymentOptions.length > 0) &&
+          renderSimpleOption(NEW_CARD, 'Use a new card')}
+
+        {activeMethodId === NEW_CARD && (
+          <>
+            <CardForm
+              value={card}
+              errors={cardErrors}
+              onChange={(value, field) => {
+                setCard(value);
+                setCardErrors({...cardErrors, [field]: undefined});
+              }}
+            />
+
+            {user && !user.isGuest &&
+              renderCheckbox(
+                'Save this card for future purchases',
+                saveCard,
+                () => setSaveCard(!saveCard),
+              )}
+
+            <View style={styles.testCardInfo}>
+              <Text style={styles.testCardTitle}>Test Card Numbers:</Text>
+              <Text style={styles.testCardText}>Success: 4242 4242 4242 4242</Text>
+              <Text style={styles.testCardText}>
+                Amex: 3782 822463 10005
+              </Text>
+              <Text style={styles.testCardText}>
+                Debit: 4000 0566 5566 5556
+              </Text>
+              <Text style={styles.testCardText}>
+                3-D Secure: 4000 0027 6000 3184
+              </Text>
+              <Text style={styles.testCardText}>
+                Declines: 4000 0000 0000 then 9995 (funds), 0069 (expired),
+                0127 (CVC) or 0119 (processor); fraud: 4100 0000 0000 0019
+              </Text>
+              <Text style={styles.testCardText}>
+                Any future expiry; 4-digit CVC for Amex, 3 digits otherwise
+              </Text>
+            </View>
+          </>
+        )}
+
+        <Text style={[styles.sectionTitle, styles.billingTitle]}>
+          Billing Address
+        </Text>
+        {renderCheckbox(
+          'Same as shipping address',
+          billingSameAsShipping,
+          handleToggleBillingSameAsShipping,
+        )}
+
+        {!billingSameAsShipping && (
+          <>
+            {billingAddresses.map(address =>
+              renderAddressOption(address, billingAddress, setBillingAddress),
+            )}
+
+            <TouchableOpacity
+              style={styles.addNewButton}
+              onPress={() => setShowNewBillingForm(!showNewBillingForm)}>
+              <Text style={styles.addNewText}>
+                {showNewBillingForm ? 'Cancel' : '+ Add Billing Address'}
+              </Text>
+            </TouchableOpacity>
+
+            {showNewBillingForm && (
+              <View style={styles.newAddressForm}>
+                <AddressForm
+                  value={newBillingAddress}
+                  errors={newBillingErrors}
+                  onChange={value => {
+                    setNewBillingAddress(value);
+                    setNewBillingErrors({});
+                  }}
+                />
+                <Button
+                  title="Save Address"
+                  onPress={handleSaveBillingAddress}
+                  loading={savingAddress}
+                  disabled={savingAddress}
+                />
+              </View>
+            )}
+          </>
+        )}
       </ScrollView>
     </KeyboardAvoidingView>
   );
@@ -401,7 +1163,11 @@ export const CheckoutScreen: React.FC = () => {
               {item.product.name} x{item.quantity}
             </Text>
             <Text style={styles.reviewItemPrice}>
-              ${(item.unitPrice * item.quantity).toFixed(2)}
+              {formatPrice(
+                item.unitPrice * item.quantity,
+                currency,
+                item.product.currency,
+              )}
             </Text>
           </View>
         ))}
@@ -428,32 +1194,105 @@ export const CheckoutScreen: React.FC = () => {
       {/* Payment */}
       <View style={styles.reviewSection}>
         <Text style={styles.reviewSectionTitle}>Payment Method</Text>
-        <Text style={styles.reviewText}>
-          {paymentMethod?.cardInfo?.brand} ending in{' '}
-          {paymentMethod?.cardInfo?.last4}
-        </Text>
+        {paymentMethod && (
+          <Text style={styles.reviewText}>
+            {formatPaymentMethod(paymentMethod)}
+          </Text>
+        )}
+        <Text style={styles.reviewSubheading}>Billing Address</Text>
+        {billingSameAsShipping ? (
+          <Text style={styles.reviewText}>Same as shipping address</Text>
+        ) : (
+          billingAddress && (
+            <Text style={styles.reviewText}>
+              {billingAddress.firstName} {billingAddress.lastName}
+              {'\n'}
+              {billingAddress.street}
+              {'\n'}
+              {billingAddress.city}, {billingAddress.state}{' '}
+              {billingAddress.zipCode}
+            </Text>
+          )
+        )}
+      </View>
+
+      {/* Promo Codes */}
+      <View style={styles.reviewSection}>
+        <Text style={styles.reviewSectionTitle}>Promo Code</Text>
+        <View style={styles.promoRow}>
+          <Input
+            placeholder="Enter code"
+            value={promoCode}
+            onChangeText={setPromoCode}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            containerStyle={styles.promoInput}
+          />
+          <Button
+            title="Apply"
+            onPress={handleApplyPromoCode}
+            variant="outline"
+            loading={applyingPromo}
+            disabled={!promoCode.trim()}
+            style={styles.promoButton}
+          />
+        </View>
+        {promotions.map(promotion => (
+          <View key={promotion.code} style={styles.appliedPromo}>
+            <View style={styles.appliedPromoInfo}>
+              <Text style={styles.appliedPromoCode}>{promotion.code}</Text>
+              <Text style={styles.appliedPromoDescription}>
+                {discounts.some(d => d.code === promotion.code)
+                  ? promotion.description
+                  : 'Does not apply to this order'}
+              </Text>
+            </View>
+            <TouchableOpacity
+              onPress={() => handleRemovePromoCode(promotion.code)}>
+              <Text style={styles.removePromoText}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
       </View>
 
       {/* Totals */}
       <View style={styles.totalsSection}>
         <View style={styles.totalRow}>
           <Text style={styles.totalLabel}>Subtotal</Text>
-          <Text style={styles.totalValue}>${subtotal.toFixed(2)}</Text>
+          <Text style={styles.totalValue}>
+            {formatPrice(subtotal, currency)}
+          </Text>
         </View>
         <View style={styles.totalRow}>
           <Text style={styles.totalLabel}>Shipping</Text>
           <Text style={styles.totalValue}>
-            {shippingCost === 0 ? 'FREE' : `$${shippingCost.toFixed(2)}`}
+            {shippingCost === 0 ? 'FREE' : formatPrice(shippingCost, currency)}
           </Text>
         </View>
+        {discounts.map(line => (
+          <View key={line.code} style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Discount ({line.code})</Text>
+            <Text style={[styles.totalValue, styles.discountValue]}>
+              -{formatPrice(line.amount, currency)}
+            </Text>
+          </View>
+        ))}
         <View style={styles.totalRow}>
           <Text style={styles.totalLabel}>Tax</Text>
-          <Text style={styles.totalValue}>${tax.toFixed(2)}</Text>
+          <Text style={styles.totalValue}>{formatPrice(tax, currency)}</Text>
         </View>
         <View style={[styles.totalRow, styles.totalRowFinal]}>
           <Text style={styles.totalLabelFinal}>Total</Text>
-          <Text style={styles.totalValueFinal}>${total.toFixed(2)}</Text>
+          <Text style={styles.totalValueFinal}>
+            {formatPrice(total, currency)}
+          </Text>
         </View>
+        {currency !== BASE_CURRENCY && (
+          <Text style={styles.exchangeNote}>
+            Charged in {currency} at 1 {BASE_CURRENCY} ={' '}
+            {getExchangeRate(BASE_CURRENCY, currency)} {currency}
+          </Text>
+        )}
       </View>
     </ScrollView>
   );
@@ -479,14 +1318,37 @@ export const CheckoutScreen: React.FC = () => {
     </View>
   );
 
+  // Shown over the processing spinner while the order is being paid
+  const renderPaymentChallenge = () =>
+    challengeOrder && (
+      <PaymentChallenge
+        visible
+        amount={formatOrderAmount(challengeOrder.total, challengeOrder)}
+        paymentMethodLabel={formatPaymentMethod(challengeOrder.paymentMethod)}
+        onComplete={handleChallengeComplete}
+      />
+    );
+
   if (loading) {
-    return <LoadingSpinner fullScreen message="Processing your order..." />;
+    return (
+      <>
+        <LoadingSpinner fullScreen message="Processing your order..." />
+        {renderPaymentChallenge()}
+      </>
+    );
   }
 
   return (
     <View style={styles.container}>
       {renderStepIndicator()}
 
+      {currentStep !== 'confirmation' && (
+        <CartChangesSummary
+          changes={pendingChanges}
+          onAcknowledge={acknowledgeChanges}
+        />
+      )}
+
       {currentStep === 'shipping' && renderShippingStep()}
       {currentStep === 'payment' && renderPaymentStep()}
       {currentStep === 'review' && renderReviewStep()}
@@ -581,6 +1443,9 @@ const styles = StyleSheet.create({
   addressCardSelected: {
     borderColor: '#000',
   },
+  paymentOptionDisabled: {
+    opacity: 0.5,
+  },
   addressRadio: {
     marginRight: 12,
     paddingTop: 2,
@@ -625,20 +1490,43 @@ const styles = StyleSheet.create({
     color: '#007AFF',
     fontWeight: '500',
   },
+  billingTitle: {
+    marginTop: 24,
+  },
+  checkboxRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: '#ccc',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  checkboxChecked: {
+    backgroundColor: '#000',
+    borderColor: '#000',
+  },
+  checkmark: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  checkboxLabel: {
+    fontSize: 15,
+    color: '#333',
+  },
   newAddressForm: {
     backgroundColor: '#fff',
     padding: 16,
     borderRadius: 12,
     marginTop: 12,
   },
-  row: {
-    flexDirection: 'row',
-    marginHorizontal: -8,
-  },
-  halfInput: {
-    flex: 1,
-    marginHorizontal: 8,
-  },
   shippingMethodCard: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -653,6 +1541,9 @@ const styles = StyleSheet.create({
   shippingMethodSelected: {
     borderColor: '#000',
   },
+  shippingMethodUnavailable: {
+    opacity: 0.5,
+  },
   shippingMethodInfo: {
     flex: 1,
   },
@@ -722,12 +1613,59 @@ const styles = StyleSheet.create({
     color: '#666',
     lineHeight: 20,
   },
+  reviewSubheading: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 12,
+    marginBottom: 4,
+  },
   reviewShippingMethod: {
     fontSize: 13,
     color: '#666',
     marginTop: 8,
     fontStyle: 'italic',
   },
+  promoRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  promoInput: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  promoButton: {
+    marginLeft: 12,
+  },
+  appliedPromo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+    marginTop: 12,
+  },
+  appliedPromoInfo: {
+    flex: 1,
+  },
+  appliedPromoCode: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  appliedPromoDescription: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  removePromoText: {
+    fontSize: 14,
+    color: '#ff3b30',
+  },
+  discountValue: {
+    color: '#4CAF50',
+  },
   totalsSection: {
     backgroundColor: '#fff',
     padding: 16,
@@ -762,6 +1700,12 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#000',
   },
+  exchangeNote: {
+    fontSize: 12,
+    color: '#999',
+    textAlign: 'right',
+    marginTop: 4,
+  },
   confirmationContainer: {
     flex: 1,
     alignItems: 'center',
@@ -0,0 +1,401 @@
+import React, {useCallback, useEffect, useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Image,
+  Alert,
+} from 'react-native';
+import {useNavigation, useRoute, RouteProp} from '@react-navigation/native';
+import {NativeStackNavigationProp} from '@react-navigation/native-stack';
+import {Order, canCancelOrder, canRefundOrder} from '../models/Order';
+import {formatAddress} from '../models/Address';
+import {formatPaymentMethod} from '../models/Payment';
+import {useOrderStore} from '../store/orderStore';
+import {embraceService} from '../services/embrace';
+import {formatOrderAmount} from '../services/currency';
+import {
+  Button,
+  LoadingSpinner,
+  EmptyState,
+  OrderStatusBadge,
+} from '../components';
+import {RootStackParamList} from '../navigation/types';
+
+type OrderDetailRouteProp = RouteProp<RootStackParamList, 'OrderDetail'>;
+type OrderDetailNavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+export const OrderDetailScreen: React.FC = () => {
+  const navigation = useNavigation<OrderDetailNavigationProp>();
+  const route = useRoute<OrderDetailRouteProp>();
+  const {orderId} = route.params;
+  const {getOrder, loadOrder, cancelOrder, requestRefund} = useOrderStore();
+
+  const [order, setOrder] = useState<Order | undefined>(getOrder(orderId));
+  const [loading, setLoading] = useState(!order);
+  const [updating, setUpdating] = useState(false);
+
+  useEffect(() => {
+    if (order) {
+      navigation.setOptions({title: `Order #${order.orderNumber}`});
+    }
+  }, [order, navigation]);
+
+  const fetchOrder = useCallback(async () => {
+    embraceService.addBreadcrumb(`ORDER_DETAIL_LOAD_${orderId}`);
+    const spanId = embraceService.startSpan('order_detail_load', {
+      'order.id': orderId,
+    });
+
+    try {
+      const data = await loadOrder(orderId);
+      setOrder(data);
+      if (spanId) {
+        embraceService.addSpanAttribute(spanId, 'order.found', String(!!data));
+        if (data) {
+          embraceService.addSpanAttribute(spanId, 'order.status', data.status);
+        }
+        embraceService.endSpan(spanId, true);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      embraceService.logError('Failed to load order', {
+        'order.id': orderId,
+        error: errorMessage,
+      });
+      if (spanId) {
+        embraceService.endSpan(spanId, false);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId, loadOrder]);
+
+  useEffect(() => {
+    fetchOrder();
+  }, [fetchOrder]);
+
+  const runOrderAction = async (
+    action: () => Promise<Order>,
+    successTitle: string,
+    successMessage: string,
+  ) => {
+    setUpdating(true);
+    try {
+      setOrder(await action());
+      Alert.alert(successTitle, successMessage);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleCancelOrder = () => {
+    embraceService.addBreadcrumb('CANCEL_ORDER_TAPPED');
+    Alert.alert('Cancel Order', 'Are you sure you want to cancel this order?', [
+      {text: 'Keep Order', style: 'cancel'},
+      {
+        text: 'Cancel Order',
+        style: 'destructive',
+        onPress: () =>
+          runOrderAction(
+            () => cancelOrder(orderId, 'customer_request'),
+            'Order Cancelled',
+            'Your order has been cancelled.',
+          ),
+      },
+    ]);
+  };
+
+  const handleRequestRefund = () => {
+    embraceService.addBreadcrumb('REQUEST_REFUND_TAPPED');
+    const refund = (reason: string) =>
+      runOrderAction(
+        () => requestRefund(orderId, reason),
+        'Refund Requested',
+        'Your refund is on its way.',
+      );
+
+    Alert.alert('Request Refund', 'Why are you returning this order?', [
+      {text: 'Damaged', onPress: () => refund('damaged')},
+      {text: 'Not as Described', onPress: () => refund('not_as_described')},
+      {text: 'Cancel', style: 'cancel'},
+    ]);
+  };
+
+  if (loading) {
+    return <LoadingSpinner fullScreen message="Loading order..." />;
+  }
+
+  if (!order) {
+    return (
+      <EmptyState
+        title="Order Not Found"
+        message="This order could not be loaded"
+        icon="🧾"
+      />
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container}>
+      {/* Status */}
+      <View style={styles.section}>
+        <View style={styles.statusRow}>
+          <Text style={styles.orderNumber}>Order #{order.orderNumber}</Text>
+          <OrderStatusBadge status={order.status} />
+        </View>
+        <Text style={styles.mutedText}>
+          Placed {new Date(order.createdAt).toLocaleDateString()}
+        </Text>
+        {order.estimatedDelivery && (
+          <Text style={styles.mutedText}>
+            Estimated delivery{' '}
+            {new Date(order.estimatedDelivery).toLocaleDateString()}
+          </Text>
+        )}
+        {order.trackingNumber && (
+          <Text style={styles.mutedText}>Tracking: {order.trackingNumber}</Text>
+        )}
+        {order.cancellationReason && (
+          <Text style={styles.mutedText}>
+            Cancellation reason: {order.cancellationReason}
+          </Text>
+        )}
+        {order.refundReason && (
+          <Text style={styles.mutedText}>
+            Refund reason: {order.refundReason}
+          </Text>
+        )}
+      </View>
+
+      {/* Items */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Items ({order.items.length})</Text>
+        {order.items.map(item => (
+          <View key={item.id} style={styles.item}>
+            {item.imageUrl && (
+              <Image source={{uri: item.imageUrl}} style={styles.itemImage} />
+            )}
+            <View style={styles.itemInfo}>
+              <Text style={styles.itemName}>{item.productName}</Text>
+              {Object.entries(item.selectedVariants).map(([key, value]) => (
+                <Text key={key} style={styles.mutedText}>
+                  {key}: {value}
+                </Text>
+              ))}
+              <Text style={styles.mutedText}>Qty {item.quantity}</Text>
+              {item.tax !== undefined && (
+                <Text style={styles.mutedText}>
+                  {item.taxRate
+                    ? `Tax ${+(item.taxRate * 100).toFixed(3)}%: ${formatOrderAmount(
+                        item.tax,
+                        order,
+                      )}`
+                    : 'Tax exempt'}
+                </Text>
+              )}
+            </View>
+            <Text style={styles.itemPrice}>
+              {formatOrderAmount(item.unitPrice * item.quantity, order)}
+            </Text>
+          </View>
+        ))}
+      </View>
+
+      {/* Addresses */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Shipping Address</Text>
+        <Text style={styles.bodyText}>{formatAddress(order.shippingAddress)}</Text>
+      </View>
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Billing Address</Text>
+        <Text style={styles.bodyText}>{formatAddress(order.billingAddress)}</Text>
+      </View>
+
+      {/* Payment */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Payment Method</Text>
+        <Text style={styles.bodyText}>
+          {formatPaymentMethod(order.paymentMethod)}
+        </Text>
+      </View>
+
+      {/* Totals */}
+      <View style={styles.section}>
+        <View style={styles.totalRow}>
+          <Text style={styles.totalLabel}>Subtotal</Text>
+          <Text style={styles.totalValue}>
+            {formatOrderAmount(order.subtotal, order)}
+          </Text>
+        </View>
+        <View style={styles.totalRow}>
+          <Text style={styles.totalLabel}>Shipping</Text>
+          <Text style={styles.totalValue}>
+            {order.shipping === 0
+              ? 'FREE'
+              : formatOrderAmount(order.shipping, order)}
+          </Text>
+        </View>
+        {(order.discounts || []).map(line => (
+          <View key={line.code} style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Discount ({line.code})</Text>
+            <Text style={[styles.totalValue, styles.discountValue]}>
+              -{formatOrderAmount(line.amount, order)}
+            </Text>
+          </View>
+        ))}
+        <View style={styles.totalRow}>
+          <Text style={styles.totalLabel}>Tax</Text>
+          <Text style={styles.totalValue}>
+            {formatOrderAmount(order.tax, order)}
+          </Text>
+        </View>
+        <View style={[styles.totalRow, styles.totalRowFinal]}>
+          <Text style={styles.totalLabelFinal}>Total</Text>
+          <Text style={styles.totalValueFinal}>
+            {formatOrderAmount(order.total, order)}
+          </Text>
+        </View>
+      </View>
+
+      {/* Actions */}
+      {canCancelOrder(order) && (
+        <View style={styles.actionSection}>
+          <Button
+            title="Cancel Order"
+            onPress={handleCancelOrder}
+            variant="outline"
+            loading={updating}
+            disabled={updating}
+          />
+        </View>
+      )}
+      {canRefundOrder(order) && (
+        <View style={styles.actionSection}>
+          <Button
+            title="Request Refund"
+            onPress={handleRequestRefund}
+            variant="outline"
+            loading={updating}
+            disabled={updating}
+          />
+        </View>
+      )}
+
+      <View style={styles.bottomPadding} />
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f8f8',
+  },
+  section: {
+    backgroundColor: '#fff',
+    padding: 16,
+    marginBottom: 12,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  orderNumber: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#333',
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#888',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 12,
+  },
+  mutedText: {
+    fontSize: 13,
+    color: '#888',
+    marginTop: 2,
+  },
+  bodyText: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  itemImage: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+    marginRight: 12,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333',
+  },
+  itemPrice: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginLeft: 12,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  discountValue: {
+    color: '#4CAF50',
+  },
+  totalRowFinal: {
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    paddingTop: 12,
+    marginTop: 4,
+    marginBottom: 0,
+  },
+  totalLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  totalValue: {
+    fontSize: 14,
+    color: '#333',
+  },
+  totalLabelFinal: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#333',
+  },
+  totalValueFinal: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#333',
+  },
+  actionSection: {
+    paddingHorizontal: 16,
+    paddingTop: 4,
+  },
+  bottomPadding: {
+    height: 32,
+  },
+});
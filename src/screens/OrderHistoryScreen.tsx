@@ -0,0 +1,183 @@
+import React, {useCallback, useEffect, useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  RefreshControl,
+} from 'react-native';
+import {useNavigation} from '@react-navigation/native';
+import {NativeStackNavigationProp} from '@react-navigation/native-stack';
+import {Order} from '../models/Order';
+import {useAuthStore} from '../store/authStore';
+import {useOrderStore} from '../store/orderStore';
+import {embraceService} from '../services/embrace';
+import {formatOrderAmount} from '../services/currency';
+import {LoadingSpinner, EmptyState, OrderStatusBadge} from '../components';
+import {RootStackParamList} from '../navigation/types';
+
+type OrderHistoryNavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+export const OrderHistoryScreen: React.FC = () => {
+  const navigation = useNavigation<OrderHistoryNavigationProp>();
+  const {user} = useAuthStore();
+  const {ordersByUser, loadOrders} = useOrderStore();
+  const orders = user ? ordersByUser[user.id] || [] : [];
+
+  const [loading, setLoading] = useState(orders.length === 0);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const fetchOrders = useCallback(async () => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    embraceService.addBreadcrumb('ORDER_HISTORY_LOAD');
+    const spanId = embraceService.startSpan('order_history_load', {
+      'user.id': user.id,
+    });
+
+    try {
+      const data = await loadOrders(user.id);
+      if (spanId) {
+        embraceService.addSpanAttribute(
+          spanId,
+          'order.count',
+          data.length.toString(),
+        );
+        embraceService.endSpan(spanId, true);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      embraceService.logError('Failed to load order history', {
+        'user.id': user.id,
+        error: errorMessage,
+      });
+      if (spanId) {
+        embraceService.endSpan(spanId, false);
+      }
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [user, loadOrders]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    embraceService.addBreadcrumb('ORDER_HISTORY_REFRESH');
+    fetchOrders();
+  };
+
+  const handleOrderPress = (order: Order) => {
+    embraceService.addBreadcrumb(`ORDER_SELECTED_${order.orderNumber}`);
+    navigation.navigate('OrderDetail', {orderId: order.id});
+  };
+
+  const renderOrder = ({item}: {item: Order}) => {
+    const itemCount = item.items.reduce((sum, i) => sum + i.quantity, 0);
+    return (
+      <TouchableOpacity
+        style={styles.orderCard}
+        onPress={() => handleOrderPress(item)}>
+        <View style={styles.orderHeader}>
+          <Text style={styles.orderNumber}>Order #{item.orderNumber}</Text>
+          <OrderStatusBadge status={item.status} />
+        </View>
+        <Text style={styles.orderDate}>
+          {new Date(item.createdAt).toLocaleDateString()}
+        </Text>
+        <View style={styles.orderFooter}>
+          <Text style={styles.orderItems}>
+            {itemCount} {itemCount === 1 ? 'item' : 'items'}
+          </Text>
+          <Text style={styles.orderTotal}>
+            {formatOrderAmount(item.total, item)}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  if (loading) {
+    return <LoadingSpinner fullScreen message="Loading orders..." />;
+  }
+
+  if (orders.length === 0) {
+    return (
+      <EmptyState
+        title="No Orders Yet"
+        message="Orders you place will appear here"
+        icon="🧾"
+        actionTitle="Start Shopping"
+        onAction={() => navigation.navigate('MainTabs', {screen: 'Home'})}
+      />
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={orders}
+        keyExtractor={item => item.id}
+        renderItem={renderOrder}
+        contentContainerStyle={styles.listContainer}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f8f8',
+  },
+  listContainer: {
+    padding: 16,
+  },
+  orderCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  orderHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  orderNumber: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  orderDate: {
+    fontSize: 13,
+    color: '#888',
+    marginBottom: 12,
+  },
+  orderFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  orderItems: {
+    fontSize: 14,
+    color: '#666',
+  },
+  orderTotal: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#333',
+  },
+});
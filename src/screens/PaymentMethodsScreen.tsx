@@ -0,0 +1,265 @@
+import React, {useCallback, useEffect, useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import {useNavigation} from '@react-navigation/native';
+import {NativeStackNavigationProp} from '@react-navigation/native-stack';
+import {PaymentMethod} from '../models/Payment';
+import {useAuthStore} from '../store/authStore';
+import {usePaymentMethodStore} from '../store/paymentMethodStore';
+import {embraceService} from '../services/embrace';
+import {isCardExpired} from '../services/cards';
+import {Button, LoadingSpinner, EmptyState} from '../components';
+import {RootStackParamList} from '../navigation/types';
+
+type PaymentMethodsNavigationProp =
+  NativeStackNavigationProp<RootStackParamList>;
+
+export const PaymentMethodsScreen: React.FC = () => {
+  const navigation = useNavigation<PaymentMethodsNavigationProp>();
+  const {user} = useAuthStore();
+  const {
+    methodsByUser,
+    loadPaymentMethods,
+    deletePaymentMethod,
+    setDefaultPaymentMethod,
+  } = usePaymentMethodStore();
+  const methods = user ? methodsByUser[user.id] || [] : [];
+
+  const [loading, setLoading] = useState(methods.length === 0);
+  const [refreshing, setRefreshing] = useState(false);
+  const [updating, setUpdating] = useState(false);
+
+  const fetchPaymentMethods = useCallback(async () => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      await loadPaymentMethods(user.id);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      embraceService.logError('Failed to load payment methods', {
+        'user.id': user.id,
+        error: errorMessage,
+      });
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [user, loadPaymentMethods]);
+
+  useEffect(() => {
+    fetchPaymentMethods();
+  }, [fetchPaymentMethods]);
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    embraceService.addBreadcrumb('PAYMENT_METHODS_REFRESH');
+    fetchPaymentMethods();
+  };
+
+  const runPaymentMethodAction = async (
+    action: () => Promise<PaymentMethod[]>,
+  ) => {
+    setUpdating(true);
+    try {
+      await action();
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleAdd = () => {
+    embraceService.addBreadcrumb('ADD_CARD_TAPPED');
+    navigation.navigate('AddCard');
+  };
+
+  const handleSetDefault = (method: PaymentMethod) => {
+    if (!user) {
+      return;
+    }
+    runPaymentMethodAction(() => setDefaultPaymentMethod(user.id, method.id));
+  };
+
+  const handleRemove = (method: PaymentMethod) => {
+    if (!user) {
+      return;
+    }
+    Alert.alert(
+      'Remove Card',
+      `Remove the ${method.cardInfo?.brand} card ending in ${method.cardInfo?.last4}?`,
+      [
+        {text: 'Keep', style: 'cancel'},
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () =>
+            runPaymentMethodAction(() =>
+              deletePaymentMethod(user.id, method.id),
+            ),
+        },
+      ],
+    );
+  };
+
+  const renderPaymentMethod = ({item}: {item: PaymentMethod}) => {
+    const expired =
+      !!item.cardInfo &&
+      isCardExpired(item.cardInfo.expiryMonth, item.cardInfo.expiryYear);
+
+    return (
+      <View style={styles.methodCard}>
+        <View style={styles.methodHeader}>
+          <Text style={styles.methodName}>
+            {item.cardInfo?.brand} •••• {item.cardInfo?.last4}
+          </Text>
+          {item.isDefault && (
+            <View style={styles.defaultBadge}>
+              <Text style={styles.defaultBadgeText}>Default</Text>
+            </View>
+          )}
+        </View>
+        {item.cardInfo && (
+          <>
+            <Text style={styles.methodLine}>{item.cardInfo.holderName}</Text>
+            <Text style={[styles.methodLine, expired && styles.expiredText]}>
+              {expired ? 'Expired' : 'Expires'}{' '}
+              {String(item.cardInfo.expiryMonth).padStart(2, '0')}/
+              {item.cardInfo.expiryYear}
+            </Text>
+          </>
+        )}
+
+        <View style={styles.actions}>
+          {!item.isDefault && !expired && (
+            <TouchableOpacity
+              disabled={updating}
+              onPress={() => handleSetDefault(item)}>
+              <Text style={styles.actionText}>Set as Default</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            disabled={updating}
+            onPress={() => handleRemove(item)}>
+            <Text style={[styles.actionText, styles.deleteText]}>Remove</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  if (loading) {
+    return <LoadingSpinner fullScreen message="Loading payment methods..." />;
+  }
+
+  if (methods.length === 0) {
+    return (
+      <EmptyState
+        title="No Saved Cards"
+        message="Save a card to check out without typing it in"
+        icon="💳"
+        actionTitle="Add Card"
+        onAction={handleAdd}
+      />
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={methods}
+        keyExtractor={item => item.id}
+        renderItem={renderPaymentMethod}
+        contentContainerStyle={styles.listContainer}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+        }
+      />
+      <View style={styles.footer}>
+        <Button title="Add New Card" onPress={handleAdd} />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f8f8',
+  },
+  listContainer: {
+    padding: 16,
+  },
+  methodCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  methodHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  methodName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  defaultBadge: {
+    backgroundColor: '#000',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  defaultBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  methodLine: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+  },
+  expiredText: {
+    color: '#e74c3c',
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  actionText: {
+    marginRight: 20,
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  deleteText: {
+    color: '#e74c3c',
+  },
+  footer: {
+    padding: 16,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+});
@@ -7,6 +7,7 @@ import {
   Image,
   TouchableOpacity,
   Dimensions,
+  Alert,
 } from 'react-native';
 import {useRoute, RouteProp, useNavigation} from '@react-navigation/native';
 import {NativeStackNavigationProp} from '@react-navigation/native-stack';
@@ -14,6 +15,9 @@ import {Product, ProductVariant} from '../models/Product';
 import {apiService} from '../services/api';
 import {embraceService} from '../services/embrace';
 import {useCartStore} from '../store/cartStore';
+import {usePreferredCurrency} from '../store/authStore';
+import {calculateUnitPrice} from '../services/pricing';
+import {formatPrice} from '../services/currency';
 import {Button, LoadingSpinner} from '../components';
 import {RootStackParamList} from '../navigation/types';
 
@@ -27,6 +31,7 @@ export const ProductDetailScreen: React.FC = () => {
   const navigation = useNavigation<ProductDetailNavigationProp>();
   const {productId} = route.params;
   const addItem = useCartStore(state => state.addItem);
+  const currency = usePreferredCurrency();
 
   const [product, setProduct] = useState<Product | null>(null);
   const [loading, setLoading] = useState(true);
@@ -34,6 +39,7 @@ export const ProductDetailScreen: React.FC = () => {
   const [quantity, setQuantity] = useState(1);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [addedToCart, setAddedToCart] = useState(false);
+  const [available, setAvailable] = useState<number | null>(null);
 
   useEffect(() => {
     loadProduct();
@@ -82,6 +88,31 @@ export const ProductDetailScreen: React.FC = () => {
     }
   };
 
+  useEffect(() => {
+    if (!product) return;
+
+    let cancelled = false;
+    setAvailable(null);
+    apiService
+      .fetchStockLevel(product.id, selectedVariants)
+      .then(level => {
+        if (!cancelled) {
+          setAvailable(level.available);
+        }
+      })
+      .catch(error => {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error';
+        embraceService.logWarning('Failed to load stock level', {
+          'product.id': product.id,
+          'error.message': errorMessage,
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [product, selectedVariants]);
+
   const handleVariantSelect = (type: string, value: string) => {
     setSelectedVariants(prev => ({...prev, [type]: value}));
   };
@@ -90,7 +121,14 @@ export const ProductDetailScreen: React.FC = () => {
     if (!product) return;
 
     // Cart store handles telemetry for add to cart
-    addItem(product, quantity, selectedVariants);
+    try {
+      addItem(product, quantity, selectedVariants, available ?? undefined);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Unavailable', errorMessage);
+      return;
+    }
     setAddedToCart(true);
 
     // Track user action on this screen
@@ -119,6 +157,9 @@ export const ProductDetailScreen: React.FC = () => {
     return <LoadingSpinner fullScreen message="Loading product..." />;
   }
 
+  const unitPrice = calculateUnitPrice(product, selectedVariants);
+  const inStock = product.inStock && available !== 0;
+
   return (
     <View style={styles.container}>
       <ScrollView showsVerticalScrollIndicator={false}>
@@ -160,18 +201,20 @@ export const ProductDetailScreen: React.FC = () => {
         <View style={styles.infoContainer}>
           <Text style={styles.brand}>{product.brand}</Text>
           <Text style={styles.name}>{product.name}</Text>
-          <Text style={styles.price}>${product.price.toFixed(2)}</Text>
+          <Text style={styles.price}>
+            {formatPrice(unitPrice, currency, product.currency)}
+          </Text>
 
           {/* Stock Status */}
           <View style={styles.stockContainer}>
             <View
               style={[
                 styles.stockBadge,
-                product.inStock ? styles.inStock : styles.outOfStock,
+                inStock ? styles.inStock : styles.outOfStock,
               ]}>
               <Text style={styles.stockText}>
-                {product.inStock
-                  ? `In Stock (${product.stockCount})`
+                {inStock
+                  ? `In Stock (${available ?? product.stockCount})`
                   : 'Out of Stock'}
               </Text>
             </View>
@@ -207,6 +250,12 @@ export const ProductDetailScreen: React.FC = () => {
                         !variant.inStock && styles.variantTextDisabled,
                       ]}>
                       {variant.value}
+                      {variant.priceModifier !== 0 &&
+                        ` (${variant.priceModifier > 0 ? '+' : '-'}${formatPrice(
+                          Math.abs(variant.priceModifier),
+                          currency,
+                          product.currency,
+                        )})`}
                     </Text>
                   </TouchableOpacity>
                 ))}
@@ -240,9 +289,9 @@ export const ProductDetailScreen: React.FC = () => {
           <Button title="Go to Cart" onPress={handleGoToCart} />
         ) : (
           <Button
-            title={product.inStock ? 'Add to Cart' : 'Out of Stock'}
+            title={inStock ? 'Add to Cart' : 'Out of Stock'}
             onPress={handleAddToCart}
-            disabled={!product.inStock}
+            disabled={!inStock}
           />
         )}
       </View>
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, {useState} from 'react';
 import {
   View,
   Text,
@@ -10,7 +10,8 @@ import {
 } from 'react-native';
 import {useNavigation} from '@react-navigation/native';
 import {NativeStackNavigationProp} from '@react-navigation/native-stack';
-import {useAuthStore} from '../store/authStore';
+import {useAuthStore, usePreferredCurrency} from '../store/authStore';
+import {CURRENCIES} from '../config/currency.config';
 import {embraceService} from '../services/embrace';
 import {Button} from '../components';
 import {RootStackParamList} from '../navigation/types';
@@ -41,7 +42,10 @@ const MenuItem: React.FC<MenuItemProps> = ({
 
 export const ProfileScreen: React.FC = () => {
   const navigation = useNavigation<ProfileNavigationProp>();
-  const {user, logout, isAuthenticated} = useAuthStore();
+  const {user, logout, isAuthenticated, setPreferredCurrency} =
+    useAuthStore();
+  const currency = usePreferredCurrency();
+  const [showCurrencies, setShowCurrencies] = useState(false);
 
   const handleLogin = () => {
     navigation.navigate('Auth', {});
@@ -63,17 +67,22 @@ export const ProfileScreen: React.FC = () => {
 
   const handleOrderHistory = () => {
     embraceService.addBreadcrumb('VIEW_ORDER_HISTORY');
-    Alert.alert('Order History', 'Order history feature coming soon!');
+    navigation.navigate('OrderHistory');
   };
 
   const handleAddresses = () => {
     embraceService.addBreadcrumb('VIEW_ADDRESSES');
-    Alert.alert('Address Book', 'Address management feature coming soon!');
+    navigation.navigate('AddressBook');
   };
 
   const handlePaymentMethods = () => {
     embraceService.addBreadcrumb('VIEW_PAYMENT_METHODS');
-    Alert.alert('Payment Methods', 'Payment methods feature coming soon!');
+    navigation.navigate('PaymentMethods');
+  };
+
+  const handleSelectCurrency = (code: string) => {
+    setPreferredCurrency(code);
+    setShowCurrencies(false);
   };
 
   const handleSettings = () => {
@@ -214,6 +223,25 @@ export const ProfileScreen: React.FC = () => {
       {/* Preferences Section */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Preferences</Text>
+        <MenuItem
+          title="Currency"
+          subtitle={`${CURRENCIES[currency]?.name || currency} (${currency})`}
+          onPress={() => setShowCurrencies(!showCurrencies)}
+        />
+        {showCurrencies &&
+          Object.values(CURRENCIES).map(option => (
+            <TouchableOpacity
+              key={option.code}
+              style={styles.currencyOption}
+              onPress={() => handleSelectCurrency(option.code)}>
+              <Text style={styles.currencyOptionText}>
+                {option.symbol} {option.name} ({option.code})
+              </Text>
+              {option.code === currency && (
+                <Text style={styles.currencyOptionCheck}>✓</Text>
+              )}
+            </TouchableOpacity>
+          ))}
         <MenuItem title="Settings" onPress={handleSettings} />
         <MenuItem title="Help & Support" onPress={handleHelp} />
       </View>
@@ -378,6 +406,26 @@ const styles = StyleSheet.create({
     fontSize: 20,
     color: '#ccc',
   },
+  currencyOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingLeft: 32,
+    paddingRight: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+    backgroundColor: '#fafafa',
+  },
+  currencyOptionText: {
+    fontSize: 15,
+    color: '#333',
+  },
+  currencyOptionCheck: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#000',
+  },
   signOutSection: {
     padding: 16,
   },
@@ -4,5 +4,11 @@ export {ProductListScreen} from './ProductListScreen';
 export {ProductDetailScreen} from './ProductDetailScreen';
 export {CartScreen} from './CartScreen';
 export {CheckoutScreen} from './CheckoutScreen';
+export {OrderHistoryScreen} from './OrderHistoryScreen';
+export {OrderDetailScreen} from './OrderDetailScreen';
 export {ProfileScreen} from './ProfileScreen';
 export {AuthScreen} from './AuthScreen';
+export {AddressBookScreen} from './AddressBookScreen';
+export {AddressEditScreen} from './AddressEditScreen';
+export {PaymentMethodsScreen} from './PaymentMethodsScreen';
+export {AddCardScreen} from './AddCardScreen';
@@ -0,0 +1,115 @@
+import {AddressInput} from '../models/Address';
+import {
+  ADDRESS_FORMATS,
+  AddressFormat,
+  DEFAULT_COUNTRY,
+} from '../config/address.config';
+
+export type AddressField =
+  | 'firstName'
+  | 'lastName'
+  | 'street'
+  | 'city'
+  | 'state'
+  | 'zipCode'
+  | 'country'
+  | 'phoneNumber';
+
+export type AddressValidationErrors = Partial<Record<AddressField, string>>;
+
+export const SUPPORTED_COUNTRIES = Object.keys(ADDRESS_FORMATS);
+
+const findCountry = (country: string): string | undefined =>
+  SUPPORTED_COUNTRIES.find(
+    name => name.toLowerCase() === country.trim().toLowerCase(),
+  );
+
+// Unknown countries get the default country's labels so forms still render
+export const getAddressFormat = (country: string): AddressFormat =>
+  ADDRESS_FORMATS[findCountry(country) || DEFAULT_COUNTRY];
+
+/**
+ * Trims every field and puts country names, region codes and postal codes
+ * into the form they are stored and compared in.
+ */
+export const normalizeAddress = (address: AddressInput): AddressInput => {
+  const country = findCountry(address.country) || address.country.trim();
+  const format = ADDRESS_FORMATS[country];
+  const state = address.state.trim();
+  const street2 = address.street2?.trim();
+  const phoneNumber = address.phoneNumber?.trim();
+  return {
+    ...address,
+    firstName: address.firstName.trim(),
+    lastName: address.lastName.trim(),
+    street: address.street.trim(),
+    street2: street2 || undefined,
+    city: address.city.trim(),
+    state: format?.regionCodes ? state.toUpperCase() : state,
+    zipCode: address.zipCode.trim().toUpperCase(),
+    country,
+    phoneNumber: phoneNumber || undefined,
+  };
+};
+
+/**
+ * Checks an address against its country's format. Returns one message per
+ * invalid field; an empty object means the address is valid.
+ */
+export const validateAddress = (
+  address: AddressInput,
+): AddressValidationErrors => {
+  const normalized = normalizeAddress(address);
+  const errors: AddressValidationErrors = {};
+
+  if (!normalized.firstName) {
+    errors.firstName = 'First name is required';
+  }
+  if (!normalized.lastName) {
+    errors.lastName = 'Last name is required';
+  }
+  if (!normalized.street) {
+    errors.street = 'Street address is required';
+  }
+  if (!normalized.city) {
+    errors.city = 'City is required';
+  }
+
+  const format = ADDRESS_FORMATS[normalized.country];
+  if (!format) {
+    errors.country = normalized.country
+      ? `We cannot deliver to ${normalized.country}`
+      : 'Country is required';
+    return errors;
+  }
+
+  if (!normalized.state) {
+    if (format.requiresRegion) {
+      errors.state = `${format.regionLabel} is required`;
+    }
+  } else if (
+    format.regionCodes &&
+    !format.regionCodes.includes(normalized.state)
+  ) {
+    errors.state = `Enter a valid ${format.regionLabel.toLowerCase()} code`;
+  }
+
+  if (!normalized.zipCode) {
+    errors.zipCode = `${format.postalCodeLabel} is required`;
+  } else if (!format.postalCodePattern.test(normalized.zipCode)) {
+    const label = format.postalCodeLabel.toLowerCase();
+    errors.zipCode = `Enter a valid ${label}, e.g. ${format.postalCodeExample}`;
+  }
+
+  if (
+    normalized.phoneNumber &&
+    normalized.phoneNumber.replace(/\D/g, '').length < 7
+  ) {
+    errors.phoneNumber = 'Enter a valid phone number';
+  }
+
+  return errors;
+};
+
+export const isAddressValid = (errors: AddressValidationErrors): boolean =>
+  Object.keys(errors).length === 0;
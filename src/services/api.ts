@@ -1,32 +1,162 @@
 import {Product, Category} from '../models/Product';
 import {User} from '../models/User';
-import {Order} from '../models/Order';
-import {Address} from '../models/Address';
-import {ShippingMethod} from '../models/Order';
+import {Order, OrderRequest, OrderStatus} from '../models/Order';
+import {
+  InventoryReservation,
+  ReservationLine,
+  StockLevel,
+} from '../models/Inventory';
+import {Address, AddressInput} from '../models/Address';
+import {Cart} from '../models/Cart';
 import {
-  mockProducts,
-  mockCategories,
-  mockUser,
-  mockAddresses,
-  mockShippingMethods,
-} from './mockData';
+  PaymentChallengeOutcome,
+  PaymentDeclineCode,
+  PaymentMethod,
+  PaymentMethodInput,
+  PaymentRequest,
+  PaymentResult,
+} from '../models/Payment';
+import {DiscountableLine, PromoCodeValidation} from '../models/Promotion';
+import {ShippingDestination, ShippingLine} from '../models/Shipping';
+import {ShippingMethod} from '../models/Order';
+import {mockBackend} from './mockBackend';
+import {getChargeAmount, getOrderCurrency} from './currency';
 import {embraceService, HttpMethod} from './embrace';
+import {
+  ApiError,
+  MockHandler,
+  Transport,
+  TransportMode,
+  TransportResponse,
+  createTransport,
+} from './transport';
+import {
+  FaultProfileName,
+  FaultRule,
+  InjectedFaultError,
+  faultInjector,
+} from './faultInjection';
+import {
+  getBackoffDelay,
+  isRetryableError,
+  resolveRetryPolicy,
+} from './retryPolicy';
+import {API_CONFIG} from '../config/api.config';
+import {
+  PAYMENT_DECLINES,
+  PAYMENT_POLL_INTERVAL_MS,
+  PAYMENT_POLL_TIMEOUT_MS,
+} from '../config/payment.config';
+import {delay} from '../utils';
+
+// Gateway errors from /payments/* mean the payment processor is down
+const PROCESSOR_UNAVAILABLE_STATUS_CODES = [502, 503, 504];
+
+const isPaymentDeclineCode = (code?: string): code is PaymentDeclineCode =>
+  code !== undefined && code in PAYMENT_DECLINES;
+
+// Maps a failed payment request to the decline it amounts to, if it is one
+const getPaymentDeclineCode = (
+  error: unknown,
+): PaymentDeclineCode | undefined => {
+  if (error instanceof ApiError) {
+    if (PROCESSOR_UNAVAILABLE_STATUS_CODES.includes(error.statusCode)) {
+      return 'processor_unavailable';
+    }
+    if (error.statusCode === 402) {
+      // A decline without a reason we know is a generic decline by the bank
+      return isPaymentDeclineCode(error.code) ? error.code : 'fraud_suspected';
+    }
+  }
+  return undefined;
+};
 
-const delay = (ms: number): Promise<void> =>
-  new Promise(resolve => setTimeout(() => resolve(), ms));
+// Maps a failed cancellation or refund to the failure.reason reported with it
+const getOrderActionFailureReason = (
+  error: unknown,
+  fallback: string,
+): string => {
+  if (error instanceof ApiError) {
+    if (error.statusCode === 404) {
+      return 'order_not_found';
+    }
+    if (error.statusCode === 409) {
+      return 'invalid_order_status';
+    }
+  }
+  return fallback;
+};
 
-// Simulated API base URL for network request tracking
-const API_BASE_URL = 'https://api.embrace-ecommerce.com/v1';
+// Maps a rejected promo code to the failure.reason reported with it
+const getPromoCodeFailureReason = (error: unknown): string => {
+  if (error instanceof ApiError) {
+    if (error.statusCode === 404) {
+      return 'promo_not_found';
+    }
+    if (error.statusCode === 422) {
+      return 'promo_not_applicable';
+    }
+  }
+  return 'promo_validation_error';
+};
 
 interface NetworkRequestOptions {
   endpoint: string;
   method: HttpMethod;
   body?: unknown;
+  idempotencyKey?: string;
 }
 
 class APIService {
   private mockDelay = 500;
   private requestIdCounter = 0;
+  private baseUrl = API_CONFIG.baseUrl;
+  private transport: Transport = createTransport(
+    API_CONFIG.transport,
+    API_CONFIG.timeoutMs,
+  );
+  // Payments waiting on a 3-D Secure challenge, so the pending phase can be
+  // reported once the challenge is answered
+  private challengedPayments: Map<
+    string,
+    {startTime: number; currency: string; traceSpanId?: string | null}
+  > = new Map();
+
+  constructor() {
+    this.configureFaults(API_CONFIG.faultProfile, API_CONFIG.faultOverrides);
+  }
+
+  /**
+   * Switches the transport used by every subsequent request. The mock
+   * transport keeps resolving requests from mockData.ts; the http transport
+   * sends them to `baseUrl`.
+   */
+  configureTransport(
+    mode: TransportMode,
+    baseUrl = this.baseUrl,
+    timeoutMs = API_CONFIG.timeoutMs,
+  ): void {
+    this.transport = createTransport(mode, timeoutMs);
+    this.baseUrl = baseUrl;
+    embraceService.addBreadcrumb(`API_TRANSPORT_${mode.toUpperCase()}`);
+  }
+
+  getTransportMode(): TransportMode {
+    return this.transport.mode;
+  }
+
+  /**
+   * Activates a fault injection profile for every subsequent request,
+   * regardless of transport.
+   */
+  configureFaults(profile: FaultProfileName, overrides: FaultRule[] = []): void {
+    faultInjector.configure(profile, overrides);
+    embraceService.addBreadcrumb(`API_FAULT_PROFILE_${profile.toUpperCase()}`);
+  }
+
+  getFaultProfile(): FaultProfileName {
+    return faultInjector.getProfile();
+  }
 
   private generateRequestId(): string {
     return `req_${++this.requestIdCounter}_${Date.now()}`;
@@ -34,166 +164,336 @@ class APIService {
 
   private async executeRequest<T>(
     options: NetworkRequestOptions,
-    operation: () => Promise<T>,
+    mockHandler: MockHandler<T>,
   ): Promise<T> {
-    const url = `${API_BASE_URL}${options.endpoint}`;
+    const url = `${this.baseUrl}${options.endpoint}`;
     const requestId = this.generateRequestId();
     const startTime = Date.now();
+    const bytesSent = options.body ? JSON.stringify(options.body).length : 0;
+    const policy = resolveRetryPolicy(
+      options.method,
+      options.endpoint,
+      options.idempotencyKey,
+    );
+    const deadline = startTime + policy.deadlineMs;
 
-    // Start a span for this network request
+    // Start a span for this network request; each attempt is a child span
     const spanId = embraceService.startSpan(`api_${options.endpoint}`, {
       'http.url': url,
       'http.method': options.method,
       'request.id': requestId,
+      'api.transport': this.transport.mode,
+      'retry.max_attempts': policy.maxAttempts.toString(),
     });
+    if (spanId && options.idempotencyKey) {
+      embraceService.addSpanAttribute(
+        spanId,
+        'idempotency.key',
+        options.idempotencyKey,
+      );
+    }
 
-    try {
-      const result = await operation();
-      const endTime = Date.now();
-
-      // Record successful network request
-      embraceService.recordNetworkRequest({
-        url,
-        method: options.method,
-        startTime,
-        endTime,
-        statusCode: 200,
-        bytesSent: options.body ? JSON.stringify(options.body).length : 0,
-        bytesReceived: JSON.stringify(result).length,
-      });
-
-      // End span successfully
-      if (spanId) {
-        embraceService.addSpanAttribute(spanId, 'http.status_code', '200');
-        embraceService.addSpanAttribute(
+    let attempt = 0;
+    while (true) {
+      attempt++;
+      try {
+        const response = await this.attemptRequest<T>(
+          options,
+          url,
+          requestId,
+          attempt,
+          deadline,
           spanId,
-          'duration_ms',
-          (endTime - startTime).toString(),
+          mockHandler,
         );
-        embraceService.endSpan(spanId, true);
-      }
+        const endTime = Date.now();
 
-      return result;
-    } catch (error) {
-      const endTime = Date.now();
-      const errorMessage =
-        error instanceof Error ? error.message : 'Unknown error';
+        // Record successful network request
+        embraceService.recordNetworkRequest({
+          url,
+          method: options.method,
+          startTime,
+          endTime,
+          statusCode: response.statusCode,
+          bytesSent,
+          bytesReceived: response.bytesReceived,
+        });
 
-      // Record failed network request
-      embraceService.recordNetworkError({
-        url,
-        method: options.method,
-        startTime,
-        endTime,
-        errorType: 'api_error',
-        errorMessage,
-      });
+        // End span successfully
+        if (spanId) {
+          embraceService.addSpanAttribute(
+            spanId,
+            'http.status_code',
+            response.statusCode.toString(),
+          );
+          embraceService.addSpanAttribute(
+            spanId,
+            'duration_ms',
+            (endTime - startTime).toString(),
+          );
+          embraceService.addSpanAttribute(
+            spanId,
+            'retry.attempt_count',
+            attempt.toString(),
+          );
+          embraceService.endSpan(spanId, true);
+        }
+
+        return response.data;
+      } catch (error) {
+        const backoffMs = getBackoffDelay(attempt, policy);
+        const canRetry =
+          attempt < policy.maxAttempts &&
+          isRetryableError(error, policy) &&
+          Date.now() + backoffMs < deadline;
+
+        if (canRetry) {
+          embraceService.addBreadcrumb(
+            `API_RETRY_${options.endpoint}_ATTEMPT_${attempt + 1}`,
+          );
+          await delay(backoffMs);
+          continue;
+        }
+
+        const endTime = Date.now();
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error';
+
+        if (error instanceof ApiError) {
+          // The server responded, so this is a completed request with an error status
+          embraceService.recordNetworkRequest({
+            url,
+            method: options.method,
+            startTime,
+            endTime,
+            statusCode: error.statusCode,
+            bytesSent,
+          });
+        } else {
+          // Record failed network request
+          embraceService.recordNetworkError({
+            url,
+            method: options.method,
+            startTime,
+            endTime,
+            errorType:
+              error instanceof InjectedFaultError
+                ? error.faultType
+                : 'api_error',
+            errorMessage,
+          });
+        }
+
+        // End span with error
+        if (spanId) {
+          if (error instanceof ApiError) {
+            embraceService.addSpanAttribute(
+              spanId,
+              'http.status_code',
+              error.statusCode.toString(),
+            );
+          }
+          embraceService.addSpanAttribute(spanId, 'error.message', errorMessage);
+          embraceService.addSpanAttribute(
+            spanId,
+            'retry.attempt_count',
+            attempt.toString(),
+          );
+          embraceService.endSpan(spanId, false);
+        }
 
-      // End span with error
-      if (spanId) {
-        embraceService.addSpanAttribute(spanId, 'error.message', errorMessage);
-        embraceService.endSpan(spanId, false);
+        throw error;
       }
+    }
+  }
+
+  /**
+   * Sends a single attempt of a request, bounded by the overall deadline, and
+   * records it as a child span of the request span.
+   */
+  private async attemptRequest<T>(
+    options: NetworkRequestOptions,
+    url: string,
+    requestId: string,
+    attempt: number,
+    deadline: number,
+    parentSpanId: string | null,
+    mockHandler: MockHandler<T>,
+  ): Promise<TransportResponse<T>> {
+    const attemptSpanId = embraceService.startSpan(
+      'api_attempt',
+      {
+        'http.url': url,
+        'http.method': options.method,
+        'request.id': requestId,
+        'attempt.number': attempt.toString(),
+      },
+      parentSpanId,
+    );
+
+    const fault = faultInjector.pick(options.method, options.endpoint);
+    if (attemptSpanId && fault) {
+      embraceService.addSpanAttribute(attemptSpanId, 'fault.injected', fault.fault);
+    }
+
+    // Aborting cancels the attempt in the transport once it loses the race
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const deadlineExceeded = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error('Request deadline exceeded'));
+      }, Math.max(0, deadline - Date.now()));
+    });
 
+    try {
+      const response = await Promise.race([
+        faultInjector.apply(fault, () =>
+          this.transport.send<T>(
+            {
+              url,
+              method: options.method,
+              body: options.body,
+              headers: {
+                'X-Request-Id': requestId,
+                'X-Attempt': attempt.toString(),
+                ...(options.idempotencyKey
+                  ? {'Idempotency-Key': options.idempotencyKey}
+                  : {}),
+              },
+              deadline,
+              signal: controller.signal,
+            },
+            mockHandler,
+          ),
+        ),
+        deadlineExceeded,
+      ]);
+
+      if (attemptSpanId) {
+        embraceService.addSpanAttribute(
+          attemptSpanId,
+          'http.status_code',
+          response.statusCode.toString(),
+        );
+        embraceService.endSpan(attemptSpanId, true);
+      }
+      return response;
+    } catch (error) {
+      if (attemptSpanId) {
+        if (error instanceof ApiError) {
+          embraceService.addSpanAttribute(
+            attemptSpanId,
+            'http.status_code',
+            error.statusCode.toString(),
+          );
+        }
+        embraceService.addSpanAttribute(
+          attemptSpanId,
+          'error.message',
+          error instanceof Error ? error.message : 'Unknown error',
+        );
+        embraceService.endSpan(attemptSpanId, false);
+      }
       throw error;
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
     }
   }
 
   async fetchProducts(): Promise<Product[]> {
+    embraceService.addBreadcrumb('API_FETCH_PRODUCTS');
     return this.executeRequest(
       {endpoint: '/products', method: 'GET'},
       async () => {
-        embraceService.addBreadcrumb('API_FETCH_PRODUCTS');
         await delay(this.mockDelay);
-        return mockProducts;
+        return mockBackend.getProducts();
       },
     );
   }
 
   async fetchProductById(id: string): Promise<Product | null> {
-    return this.executeRequest(
-      {endpoint: `/products/${id}`, method: 'GET'},
-      async () => {
-        embraceService.addBreadcrumb(`API_FETCH_PRODUCT_${id}`);
-        await delay(this.mockDelay);
-        return mockProducts.find(p => p.id === id) || null;
-      },
-    );
+    embraceService.addBreadcrumb(`API_FETCH_PRODUCT_${id}`);
+    try {
+      return await this.executeRequest(
+        {endpoint: `/products/${encodeURIComponent(id)}`, method: 'GET'},
+        async () => {
+          await delay(this.mockDelay);
+          return mockBackend.getProductById(id);
+        },
+      );
+    } catch (error) {
+      if (error instanceof ApiError && error.statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
   }
 
   async fetchProductsByCategory(category: string): Promise<Product[]> {
+    embraceService.addBreadcrumb(`API_FETCH_CATEGORY_${category}`);
     return this.executeRequest(
-      {endpoint: `/products?category=${category}`, method: 'GET'},
+      {
+        endpoint: `/products?category=${encodeURIComponent(category)}`,
+        method: 'GET',
+      },
       async () => {
-        embraceService.addBreadcrumb(`API_FETCH_CATEGORY_${category}`);
         await delay(this.mockDelay);
-        return mockProducts.filter(
-          p => p.category.toLowerCase() === category.toLowerCase(),
-        );
+        return mockBackend.getProducts(category);
       },
     );
   }
 
   async searchProducts(query: string): Promise<Product[]> {
-    return this.executeRequest(
+    embraceService.addBreadcrumb(`API_SEARCH_${query}`);
+    const results = await this.executeRequest(
       {endpoint: `/products/search?q=${encodeURIComponent(query)}`, method: 'GET'},
       async () => {
-        embraceService.addBreadcrumb(`API_SEARCH_${query}`);
         await delay(this.mockDelay);
-        const lowerQuery = query.toLowerCase();
-        const results = mockProducts.filter(
-          p =>
-            p.name.toLowerCase().includes(lowerQuery) ||
-            p.description.toLowerCase().includes(lowerQuery) ||
-            p.brand.toLowerCase().includes(lowerQuery) ||
-            p.category.toLowerCase().includes(lowerQuery),
-        );
-
-        // Track search with results
-        embraceService.trackSearch({
-          query,
-          resultCount: results.length,
-        });
-
-        return results;
+        return mockBackend.searchProducts(query);
       },
     );
+
+    // Track search with results
+    embraceService.trackSearch({
+      query,
+      resultCount: results.length,
+    });
+
+    return results;
   }
 
   async fetchCategories(): Promise<Category[]> {
+    embraceService.addBreadcrumb('API_FETCH_CATEGORIES');
     return this.executeRequest(
       {endpoint: '/categories', method: 'GET'},
       async () => {
-        embraceService.addBreadcrumb('API_FETCH_CATEGORIES');
         await delay(this.mockDelay);
-        return mockCategories;
+        return mockBackend.getCategories();
       },
     );
   }
 
   async fetchFeaturedProducts(): Promise<Product[]> {
+    embraceService.addBreadcrumb('API_FETCH_FEATURED');
     return this.executeRequest(
       {endpoint: '/products/featured', method: 'GET'},
       async () => {
-        embraceService.addBreadcrumb('API_FETCH_FEATURED');
         await delay(this.mockDelay);
-        return mockProducts.slice(0, 4);
+        return mockBackend.getFeaturedProducts();
       },
     );
   }
 
   async fetchNewArrivals(): Promise<Product[]> {
+    embraceService.addBreadcrumb('API_FETCH_NEW_ARRIVALS');
     return this.executeRequest(
       {endpoint: '/products/new-arrivals', method: 'GET'},
       async () => {
-        embraceService.addBreadcrumb('API_FETCH_NEW_ARRIVALS');
         await delay(this.mockDelay);
-        return [...mockProducts]
-          .sort(
-            (a, b) =>
-              new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
-          )
-          .slice(0, 4);
+        return mockBackend.getNewArrivals();
       },
     );
   }
@@ -202,218 +502,764 @@ class APIService {
     email: string,
     password: string,
   ): Promise<{user: User; token: string}> {
-    return this.executeRequest(
-      {endpoint: '/auth/login', method: 'POST', body: {email}},
-      async () => {
-        embraceService.trackLoginAttempt('email');
-        await delay(this.mockDelay);
+    embraceService.trackLoginAttempt('email');
 
-        // Simulate 10% failure rate for testing
-        if (Math.random() < 0.1) {
-          embraceService.trackLoginFailure('email', 'Invalid credentials');
-          throw new Error('Invalid credentials');
-        }
+    let response: {user: User; token: string};
+    try {
+      response = await this.executeRequest(
+        {endpoint: '/auth/login', method: 'POST', body: {email, password}},
+        async () => {
+          await delay(this.mockDelay);
+          return mockBackend.login(email);
+        },
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      embraceService.trackLoginFailure('email', errorMessage);
+      throw error;
+    }
 
-        // Track successful login with user details
-        embraceService.trackLoginSuccess(mockUser.id, 'email', mockUser.email);
-        embraceService.setUsername(
-          `${mockUser.firstName} ${mockUser.lastName}`,
-        );
+    // Track successful login with user details
+    const {user} = response;
+    embraceService.trackLoginSuccess(user.id, 'email', user.email);
+    embraceService.setUsername(`${user.firstName} ${user.lastName}`);
 
-        return {
-          user: mockUser,
-          token: 'mock-jwt-token-' + Date.now(),
-        };
-      },
-    );
+    return response;
   }
 
   async register(
     email: string,
-    _password: string,
+    password: string,
     firstName: string,
     lastName: string,
   ): Promise<{user: User; token: string}> {
-    return this.executeRequest(
-      {endpoint: '/auth/register', method: 'POST', body: {email, firstName, lastName}},
+    embraceService.addBreadcrumb('USER_REGISTRATION_ATTEMPT');
+    const response = await this.executeRequest(
+      {
+        endpoint: '/auth/register',
+        method: 'POST',
+        body: {email, password, firstName, lastName},
+      },
       async () => {
-        embraceService.addBreadcrumb('USER_REGISTRATION_ATTEMPT');
         await delay(this.mockDelay);
+        return mockBackend.register(email, firstName, lastName);
+      },
+    );
 
-        const newUser: User = {
-          id: 'user-' + Date.now(),
-          email,
-          firstName,
-          lastName,
-          dateJoined: new Date().toISOString(),
-          isGuest: false,
-          preferences: {
-            newsletter: false,
-            pushNotifications: true,
-            biometricAuth: false,
-            preferredCurrency: 'USD',
-          },
-        };
+    // Track registration and login
+    const {user} = response;
+    embraceService.trackRegistration(user.id, user.email);
+    embraceService.trackLoginSuccess(user.id, 'email', user.email);
+    embraceService.setUsername(`${user.firstName} ${user.lastName}`);
 
-        // Track registration and login
-        embraceService.trackRegistration(newUser.id, newUser.email);
-        embraceService.trackLoginSuccess(newUser.id, 'email', newUser.email);
-        embraceService.setUsername(`${newUser.firstName} ${newUser.lastName}`);
+    return response;
+  }
 
-        return {
-          user: newUser,
-          token: 'mock-jwt-token-' + Date.now(),
-        };
+  async guestCheckout(): Promise<{user: User; token: string}> {
+    embraceService.trackLoginAttempt('guest');
+    const response = await this.executeRequest(
+      {endpoint: '/auth/guest', method: 'POST'},
+      async () => {
+        await delay(300);
+        return mockBackend.guestLogin();
       },
     );
+
+    embraceService.trackLoginSuccess(response.user.id, 'guest');
+
+    return response;
   }
 
-  async guestCheckout(): Promise<{user: User; token: string}> {
+  async fetchUserAddresses(userId: string): Promise<Address[]> {
+    embraceService.addBreadcrumb('API_FETCH_ADDRESSES');
     return this.executeRequest(
-      {endpoint: '/auth/guest', method: 'POST'},
+      {
+        endpoint: `/user/addresses?userId=${encodeURIComponent(userId)}`,
+        method: 'GET',
+      },
       async () => {
-        embraceService.trackLoginAttempt('guest');
-        await delay(300);
+        await delay(this.mockDelay);
+        return mockBackend.getAddresses(userId);
+      },
+    );
+  }
 
-        const guestUser: User = {
-          id: 'guest-' + Date.now(),
-          email: '',
-          firstName: 'Guest',
-          lastName: 'User',
-          dateJoined: new Date().toISOString(),
-          isGuest: true,
-          preferences: {
-            newsletter: false,
-            pushNotifications: false,
-            biometricAuth: false,
-            preferredCurrency: 'USD',
-          },
-        };
+  /**
+   * Address book writes return the whole book, since saving or removing one
+   * address can move the default to another. New addresses are added at
+   * the end of the book.
+   */
+  async addAddress(userId: string, address: AddressInput): Promise<Address[]> {
+    const addresses = await this.executeRequest(
+      {
+        endpoint: '/user/addresses',
+        method: 'POST',
+        body: {userId, address},
+      },
+      async () => {
+        await delay(this.mockDelay);
+        return mockBackend.addAddress(userId, address);
+      },
+    );
+    embraceService.addBreadcrumb('ADDRESS_ADDED');
+    return addresses;
+  }
+
+  async updateAddress(
+    userId: string,
+    addressId: string,
+    address: AddressInput,
+  ): Promise<Address[]> {
+    const addresses = await this.executeRequest(
+      {
+        endpoint: `/user/addresses/${encodeURIComponent(addressId)}`,
+        method: 'PUT',
+        body: {userId, address},
+      },
+      async () => {
+        await delay(this.mockDelay);
+        return mockBackend.updateAddress(userId, addressId, address);
+      },
+    );
+    embraceService.addBreadcrumb('ADDRESS_UPDATED');
+    return addresses;
+  }
 
-        embraceService.trackLoginSuccess(guestUser.id, 'guest');
+  async deleteAddress(userId: string, addressId: string): Promise<Address[]> {
+    const addresses = await this.executeRequest(
+      {
+        endpoint: `/user/addresses/${encodeURIComponent(addressId)}?userId=${encodeURIComponent(userId)}`,
+        method: 'DELETE',
+      },
+      async () => {
+        await delay(this.mockDelay);
+        return mockBackend.deleteAddress(userId, addressId);
+      },
+    );
+    embraceService.addBreadcrumb('ADDRESS_DELETED');
+    return addresses;
+  }
 
-        return {
-          user: guestUser,
-          token: 'guest-token-' + Date.now(),
-        };
+  async setDefaultAddress(
+    userId: string,
+    addressId: string,
+  ): Promise<Address[]> {
+    const addresses = await this.executeRequest(
+      {
+        endpoint: `/user/addresses/${encodeURIComponent(addressId)}/default`,
+        method: 'POST',
+        body: {userId},
+      },
+      async () => {
+        await delay(this.mockDelay / 2);
+        return mockBackend.setDefaultAddress(userId, addressId);
       },
     );
+    embraceService.addBreadcrumb('ADDRESS_DEFAULT_CHANGED');
+    return addresses;
   }
 
-  async fetchUserAddresses(): Promise<Address[]> {
+  async fetchPaymentMethods(userId: string): Promise<PaymentMethod[]> {
+    embraceService.addBreadcrumb('API_FETCH_PAYMENT_METHODS');
     return this.executeRequest(
-      {endpoint: '/user/addresses', method: 'GET'},
+      {
+        endpoint: `/user/payment-methods?userId=${encodeURIComponent(userId)}`,
+        method: 'GET',
+      },
+      async () => {
+        await delay(this.mockDelay);
+        return mockBackend.getPaymentMethods(userId);
+      },
+    );
+  }
+
+  /**
+   * Vaults a payment method the provider has tokenized. Only the token and
+   * display metadata are sent. Like the address book, vault writes return
+   * every saved method.
+   */
+  async savePaymentMethod(
+    userId: string,
+    paymentMethod: PaymentMethodInput,
+    makeDefault = false,
+  ): Promise<PaymentMethod[]> {
+    const methods = await this.executeRequest(
+      {
+        endpoint: '/user/payment-methods',
+        method: 'POST',
+        body: {userId, paymentMethod, makeDefault},
+      },
+      async () => {
+        await delay(this.mockDelay);
+        return mockBackend.savePaymentMethod(
+          userId,
+          paymentMethod,
+          makeDefault,
+        );
+      },
+    );
+    embraceService.addBreadcrumb('PAYMENT_METHOD_SAVED');
+    return methods;
+  }
+
+  async deletePaymentMethod(
+    userId: string,
+    paymentMethodId: string,
+  ): Promise<PaymentMethod[]> {
+    const methods = await this.executeRequest(
+      {
+        endpoint: `/user/payment-methods/${encodeURIComponent(paymentMethodId)}?userId=${encodeURIComponent(userId)}`,
+        method: 'DELETE',
+      },
       async () => {
-        embraceService.addBreadcrumb('API_FETCH_ADDRESSES');
         await delay(this.mockDelay);
-        return mockAddresses;
+        return mockBackend.deletePaymentMethod(userId, paymentMethodId);
+      },
+    );
+    embraceService.addBreadcrumb('PAYMENT_METHOD_DELETED');
+    return methods;
+  }
+
+  async setDefaultPaymentMethod(
+    userId: string,
+    paymentMethodId: string,
+  ): Promise<PaymentMethod[]> {
+    const methods = await this.executeRequest(
+      {
+        endpoint: `/user/payment-methods/${encodeURIComponent(paymentMethodId)}/default`,
+        method: 'POST',
+        body: {userId},
+      },
+      async () => {
+        await delay(this.mockDelay / 2);
+        return mockBackend.setDefaultPaymentMethod(userId, paymentMethodId);
       },
     );
+    embraceService.addBreadcrumb('PAYMENT_METHOD_DEFAULT_CHANGED');
+    return methods;
   }
 
   async fetchShippingMethods(): Promise<ShippingMethod[]> {
+    embraceService.addBreadcrumb('API_FETCH_SHIPPING_METHODS');
     return this.executeRequest(
       {endpoint: '/shipping/methods', method: 'GET'},
       async () => {
-        embraceService.addBreadcrumb('API_FETCH_SHIPPING_METHODS');
         await delay(this.mockDelay);
-        return mockShippingMethods;
+        return mockBackend.getShippingMethods();
       },
     );
   }
 
-  async createOrder(orderData: Partial<Order>): Promise<Order> {
+  async fetchShippingQuotes(
+    destination: ShippingDestination,
+    lines: ShippingLine[],
+  ): Promise<ShippingMethod[]> {
+    const quotes = await this.executeRequest(
+      {
+        endpoint: '/shipping/quotes',
+        method: 'POST',
+        body: {
+          destination: {
+            country: destination.country,
+            state: destination.state,
+            zipCode: destination.zipCode,
+          },
+          lines,
+        },
+      },
+      async () => {
+        await delay(this.mockDelay);
+        return mockBackend.quoteShipping(destination, lines);
+      },
+    );
+    embraceService.addBreadcrumb('SHIPPING_QUOTED');
+    return quotes;
+  }
+
+  async fetchCart(userId: string): Promise<Cart> {
+    embraceService.addBreadcrumb('API_FETCH_CART');
+    return this.executeRequest(
+      {endpoint: `/cart?userId=${encodeURIComponent(userId)}`, method: 'GET'},
+      async () => {
+        await delay(this.mockDelay);
+        return mockBackend.getCart(userId);
+      },
+    );
+  }
+
+  /**
+   * Saves the cart. The server keeps whichever cart was updated last and
+   * returns it, so the result may be newer than the cart that was sent.
+   */
+  async saveCart(cart: Cart): Promise<Cart> {
     return this.executeRequest(
-      {endpoint: '/orders', method: 'POST', body: orderData},
+      {endpoint: '/cart', method: 'PUT', body: cart},
       async () => {
-        const orderId = 'order-' + Date.now();
+        await delay(this.mockDelay / 2);
+        return mockBackend.saveCart(cart);
+      },
+    );
+  }
 
-        // Track purchase attempt
-        embraceService.trackPurchaseAttempt({
-          orderId,
-          totalAmount: orderData.total || 0,
-          itemCount: orderData.items?.length || 0,
-        });
+  /**
+   * Units of a SKU that can still be bought. Units held by the given
+   * reservation are counted as available, since they are the shopper's own.
+   */
+  async fetchStockLevel(
+    productId: string,
+    selectedVariants: Record<string, string>,
+    reservationId?: string,
+  ): Promise<StockLevel> {
+    const params = reservationId
+      ? {...selectedVariants, reservationId}
+      : selectedVariants;
+    const query = Object.entries(params)
+      .map(
+        ([type, value]) =>
+          `${encodeURIComponent(type)}=${encodeURIComponent(value)}`,
+      )
+      .join('&');
+    return this.executeRequest(
+      {
+        endpoint: `/inventory/${encodeURIComponent(productId)}${query ? `?${query}` : ''}`,
+        method: 'GET',
+      },
+      async () => {
+        await delay(this.mockDelay / 2);
+        return mockBackend.getStockLevel(
+          {productId, selectedVariants},
+          reservationId,
+        );
+      },
+    );
+  }
+
+  /**
+   * Holds stock for the given lines until an order is created from the
+   * reservation, it is released, or it expires.
+   */
+  async reserveInventory(
+    lines: ReservationLine[],
+  ): Promise<InventoryReservation> {
+    const reservation = await this.executeRequest(
+      {endpoint: '/inventory/reservations', method: 'POST', body: {lines}},
+      async () => {
+        await delay(this.mockDelay);
+        return mockBackend.reserveInventory(lines);
+      },
+    );
+    embraceService.addBreadcrumb('INVENTORY_RESERVED');
+    return reservation;
+  }
+
+  async releaseReservation(reservationId: string): Promise<void> {
+    await this.executeRequest(
+      {
+        endpoint: `/inventory/reservations/${encodeURIComponent(reservationId)}`,
+        method: 'DELETE',
+      },
+      async () => {
+        await delay(this.mockDelay / 2);
+        return mockBackend.releaseReservation(reservationId);
+      },
+    );
+    embraceService.addBreadcrumb('INVENTORY_RELEASED');
+  }
+
+  async validatePromoCode(
+    code: string,
+    lines: DiscountableLine[],
+    appliedCodes: string[],
+    shippingCost: number,
+    currency: string,
+  ): Promise<PromoCodeValidation> {
+    const body = {code, lines, appliedCodes, shippingCost, currency};
 
+    let validation: PromoCodeValidation;
+    try {
+      validation = await this.executeRequest(
+        {endpoint: '/promotions/validate', method: 'POST', body},
+        async () => {
+          await delay(this.mockDelay);
+          return mockBackend.validatePromoCode(
+            code,
+            lines,
+            appliedCodes,
+            shippingCost,
+            currency,
+          );
+        },
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      embraceService.trackPromoCodeRejected(
+        code,
+        errorMessage,
+        getPromoCodeFailureReason(error),
+      );
+      throw error;
+    }
+
+    embraceService.trackPromoCodeApplied(validation.discount);
+    return validation;
+  }
+
+  /**
+   * Creates an order. Repeating the call with the same idempotency key
+   * returns the originally created order instead of a duplicate.
+   */
+  async createOrder(
+    orderData: OrderRequest,
+    idempotencyKey?: string,
+  ): Promise<Order> {
+    const order = await this.executeRequest(
+      {endpoint: '/orders', method: 'POST', body: orderData, idempotencyKey},
+      async () => {
         await delay(this.mockDelay * 2);
+        return mockBackend.createOrder(orderData, idempotencyKey);
+      },
+    );
+
+    // Track purchase attempt against the id assigned by the backend
+    embraceService.trackPurchaseAttempt({
+      orderId: order.id,
+      totalAmount: order.total,
+      itemCount: order.items.length,
+      paymentMethod: order.paymentMethod.type,
+    });
+    embraceService.addBreadcrumb('ORDER_DETAILS_API_COMPLETED');
+
+    return order;
+  }
 
-        const order: Order = {
-          id: orderId,
-          orderNumber:
-            'ORD-' + Math.random().toString(36).substr(2, 9).toUpperCase(),
-          userId: orderData.userId || 'guest',
-          items: orderData.items || [],
-          shippingAddress: orderData.shippingAddress!,
-          billingAddress: orderData.billingAddress!,
-          paymentMethod: orderData.paymentMethod!,
-          status: 'pending',
-          subtotal: orderData.subtotal || 0,
-          tax: orderData.tax || 0,
-          shipping: orderData.shipping || 0,
-          total: orderData.total || 0,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-          estimatedDelivery: new Date(
-            Date.now() + 7 * 24 * 60 * 60 * 1000,
-          ).toISOString(),
-        };
-
-        embraceService.addBreadcrumb('ORDER_DETAILS_API_COMPLETED');
-        return order;
+  async updateOrderStatus(orderId: string, status: OrderStatus): Promise<Order> {
+    const order = await this.executeRequest(
+      {
+        endpoint: `/orders/${encodeURIComponent(orderId)}`,
+        method: 'PATCH',
+        body: {status},
+      },
+      async () => {
+        await delay(this.mockDelay);
+        return mockBackend.updateOrderStatus(orderId, status);
       },
     );
+
+    embraceService.addBreadcrumb(`API_ORDER_STATUS_UPDATED_${orderId}`);
+
+    return order;
+  }
+
+  async cancelOrder(orderId: string, reason: string): Promise<Order> {
+    embraceService.addBreadcrumb('ORDER_CANCELLATION_STARTED');
+
+    let order: Order;
+    try {
+      order = await this.executeRequest(
+        {
+          endpoint: `/orders/${encodeURIComponent(orderId)}/cancel`,
+          method: 'POST',
+          body: {reason},
+        },
+        async () => {
+          await delay(this.mockDelay);
+          return mockBackend.cancelOrder(orderId, reason);
+        },
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      embraceService.trackOrderCancellationFailure(
+        orderId,
+        errorMessage,
+        getOrderActionFailureReason(error, 'cancellation_error'),
+      );
+      throw error;
+    }
+
+    embraceService.trackOrderCancellation(orderId, reason);
+    return order;
+  }
+
+  async requestRefund(orderId: string, reason: string): Promise<Order> {
+    embraceService.addBreadcrumb('ORDER_REFUND_STARTED');
+
+    let order: Order;
+    try {
+      order = await this.executeRequest(
+        {
+          endpoint: `/orders/${encodeURIComponent(orderId)}/refund`,
+          method: 'POST',
+          body: {reason},
+        },
+        async () => {
+          await delay(this.mockDelay * 2);
+          return mockBackend.refundOrder(orderId, reason);
+        },
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      embraceService.trackRefundFailure(
+        orderId,
+        errorMessage,
+        getOrderActionFailureReason(error, 'refund_error'),
+      );
+      throw error;
+    }
+
+    embraceService.trackRefundRequested(orderId, order.total, reason);
+    return order;
   }
 
   async fetchUserOrders(userId: string): Promise<Order[]> {
+    embraceService.addBreadcrumb(`API_FETCH_ORDERS_${userId}`);
     return this.executeRequest(
-      {endpoint: `/orders?userId=${userId}`, method: 'GET'},
+      {endpoint: `/orders?userId=${encodeURIComponent(userId)}`, method: 'GET'},
       async () => {
-        embraceService.addBreadcrumb(`API_FETCH_ORDERS_${userId}`);
         await delay(this.mockDelay);
-        return [];
+        return mockBackend.getOrders(userId);
       },
     );
   }
 
+  async fetchOrderById(orderId: string): Promise<Order | null> {
+    embraceService.addBreadcrumb(`API_FETCH_ORDER_${orderId}`);
+    try {
+      return await this.executeRequest(
+        {endpoint: `/orders/${encodeURIComponent(orderId)}`, method: 'GET'},
+        async () => {
+          await delay(this.mockDelay);
+          return mockBackend.getOrder(orderId);
+        },
+      );
+    } catch (error) {
+      if (error instanceof ApiError && error.statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Charges a pending order for its total and waits for the payment intent
+   * to settle. Repeating the call with the same idempotency key returns the
+   * original intent instead of charging again. When the card issuer wants
+   * 3-D Secure, resolves early with a pending result carrying the challenge;
+   * pass the shopper's answer to completePaymentChallenge. Declines resolve
+   * to a failed PaymentResult; any other error is thrown.
+   */
   async processPayment(
-    amount: number,
+    order: Order,
     currency: string,
-    orderId: string,
-  ): Promise<{success: boolean; transactionId: string}> {
+    idempotencyKey?: string,
+    traceSpanId?: string | null,
+  ): Promise<PaymentResult> {
+    embraceService.addBreadcrumb('PAYMENT_PROCESSING_STARTED');
+    const startTime = Date.now();
+    const request: PaymentRequest = {
+      orderId: order.id,
+      amount: getChargeAmount(order),
+      currency,
+      paymentType: order.paymentMethod.type,
+      paymentToken: order.paymentMethod.token,
+      billingAddress: order.billingAddress,
+    };
+
+    let result: PaymentResult;
+    try {
+      result = await this.executeRequest(
+        {
+          endpoint: '/payments/process',
+          method: 'POST',
+          body: request,
+          idempotencyKey,
+        },
+        async () => {
+          await delay(this.mockDelay * 3);
+          return mockBackend.processPayment(request, idempotencyKey);
+        },
+      );
+    } catch (error) {
+      return this.handlePaymentError(order, error);
+    }
+
+    const paymentIntentId = result.paymentIntentId ?? 'unknown';
+    if (result.status === 'pending' && result.challenge) {
+      embraceService.addBreadcrumb('PAYMENT_CHALLENGE_REQUIRED');
+      this.challengedPayments.set(paymentIntentId, {
+        startTime,
+        currency,
+        traceSpanId,
+      });
+      return result;
+    }
+
+    embraceService.trackPaymentIntentPhase(
+      'pending',
+      paymentIntentId,
+      startTime,
+      traceSpanId,
+      {
+        'payment.method': order.paymentMethod.type,
+        'payment.challenge': 'none',
+      },
+      result.status !== 'failed',
+    );
+    return this.settlePayment(order, currency, result, traceSpanId);
+  }
+
+  /**
+   * Sends the outcome of the shopper's 3-D Secure challenge for a payment
+   * processPayment left pending, then waits for the payment to settle.
+   */
+  async completePaymentChallenge(
+    order: Order,
+    paymentIntentId: string,
+    outcome: PaymentChallengeOutcome,
+    idempotencyKey?: string,
+  ): Promise<PaymentResult> {
+    const challenged = this.challengedPayments.get(paymentIntentId);
+    this.challengedPayments.delete(paymentIntentId);
+    embraceService.addBreadcrumb(
+      `PAYMENT_CHALLENGE_${outcome.toUpperCase()}`,
+    );
+
+    let result: PaymentResult;
+    try {
+      result = await this.executeRequest(
+        {
+          endpoint: `/payments/${encodeURIComponent(paymentIntentId)}/challenge`,
+          method: 'POST',
+          body: {outcome},
+          idempotencyKey,
+        },
+        async () => {
+          await delay(this.mockDelay);
+          return mockBackend.completePaymentChallenge(
+            paymentIntentId,
+            outcome,
+            idempotencyKey,
+          );
+        },
+      );
+    } catch (error) {
+      return this.handlePaymentError(order, error);
+    }
+
+    if (challenged) {
+      embraceService.trackPaymentIntentPhase(
+        'pending',
+        paymentIntentId,
+        challenged.startTime,
+        challenged.traceSpanId,
+        {
+          'payment.method': order.paymentMethod.type,
+          'payment.challenge': 'three_d_secure',
+          'payment.challenge_outcome': outcome,
+        },
+        result.status !== 'failed',
+      );
+    }
+    return this.settlePayment(
+      order,
+      challenged?.currency ?? getOrderCurrency(order),
+      result,
+      challenged?.traceSpanId,
+    );
+  }
+
+  async fetchPaymentIntent(paymentIntentId: string): Promise<PaymentResult> {
     return this.executeRequest(
-      {endpoint: '/payments/process', method: 'POST', body: {amount, currency, orderId}},
+      {
+        endpoint: `/payments/${encodeURIComponent(paymentIntentId)}`,
+        method: 'GET',
+      },
       async () => {
-        embraceService.addBreadcrumb('PAYMENT_PROCESSING_STARTED');
-        await delay(this.mockDelay * 3);
-
-        // Simulate 5% payment failure rate
-        if (Math.random() < 0.05) {
-          embraceService.addBreadcrumb('PAYMENT_PROCESSING_FAILED');
-          embraceService.trackPurchaseFailure(
-            orderId,
-            'Payment declined',
-            'card_declined',
-          );
-          throw new Error('Payment declined');
-        }
+        await delay(this.mockDelay);
+        return mockBackend.getPaymentIntent(paymentIntentId);
+      },
+    );
+  }
 
-        const transactionId = 'txn-' + Date.now();
-        embraceService.addBreadcrumb('PAYMENT_PROCESSING_SUCCESS');
+  // Polls a processing intent until it settles, then reports the outcome
+  private async settlePayment(
+    order: Order,
+    currency: string,
+    intent: PaymentResult,
+    traceSpanId?: string | null,
+  ): Promise<PaymentResult> {
+    let result = intent;
+    if (result.status === 'processing' && result.paymentIntentId) {
+      const {paymentIntentId} = result;
+      const startTime = Date.now();
+      const deadline = startTime + PAYMENT_POLL_TIMEOUT_MS;
+      while (result.status === 'processing' && Date.now() < deadline) {
+        await delay(PAYMENT_POLL_INTERVAL_MS);
+        result = await this.fetchPaymentIntent(paymentIntentId);
+      }
+      embraceService.trackPaymentIntentPhase(
+        'processing',
+        paymentIntentId,
+        startTime,
+        traceSpanId,
+        {
+          'payment.method': order.paymentMethod.type,
+          'payment_intent.status': result.status,
+        },
+        result.status === 'succeeded',
+      );
+    }
 
-        // Track purchase success
-        embraceService.trackPurchaseSuccess({
-          orderId,
-          totalAmount: amount,
-          itemCount: 0, // Would need to pass from caller
-          paymentMethod: 'credit_card',
-        });
+    if (result.status !== 'succeeded') {
+      embraceService.addBreadcrumb('PAYMENT_PROCESSING_FAILED');
+      embraceService.trackPurchaseFailure(
+        order.id,
+        result.errorMessage ?? `Payment ${result.status}`,
+        result.declineCode ?? 'payment_error',
+        order.paymentMethod.type,
+      );
+      return result;
+    }
 
-        return {
-          success: true,
-          transactionId,
-        };
-      },
+    embraceService.addBreadcrumb('PAYMENT_PROCESSING_SUCCESS');
+
+    embraceService.trackPurchaseSuccess({
+      orderId: order.id,
+      totalAmount: getChargeAmount(order),
+      currency,
+      itemCount: order.items.length,
+      paymentMethod: order.paymentMethod.type,
+    });
+
+    return result;
+  }
+
+  /**
+   * Declines, and a processor that is still down once retries run out,
+   * resolve to a failed PaymentResult; any other error is rethrown.
+   */
+  private handlePaymentError(order: Order, error: unknown): PaymentResult {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    const declineCode = getPaymentDeclineCode(error);
+    embraceService.addBreadcrumb('PAYMENT_PROCESSING_FAILED');
+    embraceService.trackPurchaseFailure(
+      order.id,
+      errorMessage,
+      declineCode ?? 'payment_error',
+      order.paymentMethod.type,
     );
+    if (!declineCode) {
+      throw error;
+    }
+    return {
+      status: 'failed',
+      errorMessage: PAYMENT_DECLINES[declineCode].message,
+      declineCode,
+    };
   }
 }
 
@@ -0,0 +1,283 @@
+export type CardBrand =
+  | 'visa'
+  | 'mastercard'
+  | 'amex'
+  | 'discover'
+  | 'dinersClub'
+  | 'jcb'
+  | 'unionPay';
+
+export interface CardBrandInfo {
+  brand: CardBrand;
+  name: string;
+  // Inclusive IIN ranges; both ends have the same number of digits
+  ranges: [string, string][];
+  lengths: number[];
+  cvcLength: number;
+  // Digit groups the number is displayed in
+  gaps: number[];
+}
+
+export type CardField = 'number' | 'expiry' | 'cvc' | 'holderName';
+
+export type CardValidationErrors = Partial<Record<CardField, string>>;
+
+export interface CardDetails {
+  number: string;
+  expiry: string;
+  cvc: string;
+  holderName: string;
+}
+
+const DEFAULT_GAPS = [4, 4, 4, 4, 3];
+
+// Accepted card brands. No two brands share an IIN range.
+const CARD_BRANDS: CardBrandInfo[] = [
+  {
+    brand: 'amex',
+    name: 'American Express',
+    ranges: [
+      ['34', '34'],
+      ['37', '37'],
+    ],
+    lengths: [15],
+    cvcLength: 4,
+    gaps: [4, 6, 5],
+  },
+  {
+    brand: 'dinersClub',
+    name: 'Diners Club',
+    ranges: [
+      ['300', '305'],
+      ['36', '36'],
+      ['38', '39'],
+    ],
+    lengths: [14, 16, 19],
+    cvcLength: 3,
+    gaps: [4, 6, 4],
+  },
+  {
+    brand: 'jcb',
+    name: 'JCB',
+    ranges: [['3528', '3589']],
+    lengths: [16, 17, 18, 19],
+    cvcLength: 3,
+    gaps: DEFAULT_GAPS,
+  },
+  {
+    brand: 'visa',
+    name: 'Visa',
+    ranges: [['4', '4']],
+    lengths: [13, 16, 19],
+    cvcLength: 3,
+    gaps: DEFAULT_GAPS,
+  },
+  {
+    brand: 'mastercard',
+    name: 'Mastercard',
+    ranges: [
+      ['51', '55'],
+      ['2221', '2720'],
+    ],
+    lengths: [16],
+    cvcLength: 3,
+    gaps: DEFAULT_GAPS,
+  },
+  {
+    brand: 'discover',
+    name: 'Discover',
+    ranges: [
+      ['6011', '6011'],
+      ['644', '649'],
+      ['65', '65'],
+    ],
+    lengths: [16, 17, 18, 19],
+    cvcLength: 3,
+    gaps: DEFAULT_GAPS,
+  },
+  {
+    brand: 'unionPay',
+    name: 'UnionPay',
+    ranges: [
+      ['62', '62'],
+      ['81', '81'],
+    ],
+    lengths: [16, 17, 18, 19],
+    cvcLength: 3,
+    gaps: DEFAULT_GAPS,
+  },
+];
+
+const MAX_CARD_LENGTH = 19;
+const DEFAULT_CVC_LENGTH = 3;
+// Cards are not issued with expiry dates further out than this
+const MAX_EXPIRY_YEARS = 20;
+
+export const sanitizeCardNumber = (input: string): string =>
+  input.replace(/\D/g, '').slice(0, MAX_CARD_LENGTH);
+
+// A partial number matches a range when it could still grow into it
+const matchesRange = (digits: string, [low, high]: [string, string]) => {
+  const length = Math.min(digits.length, low.length);
+  const prefix = digits.slice(0, length);
+  return prefix >= low.slice(0, length) && prefix <= high.slice(0, length);
+};
+
+/**
+ * Detects the card brand from the leading digits. Works on partial numbers
+ * as they are typed; returns null until the digits point to a single brand
+ * and when no accepted brand matches.
+ */
+export const detectCardBrand = (number: string): CardBrandInfo | null => {
+  const digits = sanitizeCardNumber(number);
+  if (!digits) {
+    return null;
+  }
+  const matches = CARD_BRANDS.filter(info =>
+    info.ranges.some(range => matchesRange(digits, range)),
+  );
+  return matches.length === 1 ? matches[0] : null;
+};
+
+export const luhnCheck = (number: string): boolean => {
+  const digits = sanitizeCardNumber(number);
+  if (digits.length < 12) {
+    return false;
+  }
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+const describeLengths = (lengths: number[]): string =>
+  lengths.length === 1
+    ? `${lengths[0]}`
+    : `${lengths.slice(0, -1).join(', ')} or ${lengths[lengths.length - 1]}`;
+
+export const getCvcLength = (brand: CardBrandInfo | null): number =>
+  brand?.cvcLength ?? DEFAULT_CVC_LENGTH;
+
+export const getMaxCardLength = (brand: CardBrandInfo | null): number =>
+  brand ? Math.max(...brand.lengths) : MAX_CARD_LENGTH;
+
+/**
+ * Groups the digits typed so far the way the detected brand prints them,
+ * e.g. "3782 822463 10005" for American Express.
+ */
+export const formatCardNumber = (input: string): string => {
+  const brand = detectCardBrand(input);
+  const digits = sanitizeCardNumber(input).slice(0, getMaxCardLength(brand));
+  const gaps = brand?.gaps ?? DEFAULT_GAPS;
+
+  const groups: string[] = [];
+  let start = 0;
+  for (const size of gaps) {
+    if (start >= digits.length) {
+      break;
+    }
+    groups.push(digits.slice(start, start + size));
+    start += size;
+  }
+  if (start < digits.length) {
+    groups.push(digits.slice(start));
+  }
+  return groups.join(' ');
+};
+
+/**
+ * Formats expiry input as MM/YY while it is typed. A leading digit above 1
+ * can only be a single-digit month, so it is zero-padded.
+ */
+export const formatExpiry = (input: string): string => {
+  let digits = input.replace(/\D/g, '').slice(0, 4);
+  if (digits.length === 1 && digits > '1') {
+    digits = `0${digits}`;
+  }
+  return digits.length > 2
+    ? `${digits.slice(0, 2)}/${digits.slice(2)}`
+    : digits;
+};
+
+// Accepts MM/YY or MM/YYYY; null when the value is not a real month
+export const parseExpiry = (
+  value: string,
+): {month: number; year: number} | null => {
+  const match = value.trim().match(/^(\d{1,2})\s*\/\s*(\d{2}|\d{4})$/);
+  if (!match) {
+    return null;
+  }
+  const month = parseInt(match[1], 10);
+  const year =
+    match[2].length === 2
+      ? 2000 + parseInt(match[2], 10)
+      : parseInt(match[2], 10);
+  if (month < 1 || month > 12) {
+    return null;
+  }
+  return {month, year};
+};
+
+// Cards are valid through the last day of their expiry month
+export const isCardExpired = (
+  expiryMonth: number,
+  expiryYear: number,
+  now = new Date(),
+): boolean =>
+  expiryYear * 12 + expiryMonth < now.getFullYear() * 12 + now.getMonth() + 1;
+
+/**
+ * Checks the card a shopper typed in. Returns one message per invalid
+ * field; an empty object means the card can be submitted.
+ */
+export const validateCard = (
+  card: CardDetails,
+  now = new Date(),
+): CardValidationErrors => {
+  const errors: CardValidationErrors = {};
+  const digits = sanitizeCardNumber(card.number);
+  const brand = detectCardBrand(digits);
+
+  if (!card.holderName.trim()) {
+    errors.holderName = 'Cardholder name is required';
+  }
+
+  if (!digits) {
+    errors.number = 'Card number is required';
+  } else if (!brand) {
+    errors.number = 'This card type is not accepted';
+  } else if (!brand.lengths.includes(digits.length)) {
+    const lengths = describeLengths(brand.lengths);
+    errors.number = `${brand.name} card numbers are ${lengths} digits`;
+  } else if (!luhnCheck(digits)) {
+    errors.number = 'Check the card number for typos';
+  }
+
+  const expiry = parseExpiry(card.expiry);
+  if (!card.expiry.trim()) {
+    errors.expiry = 'Expiry date is required';
+  } else if (!expiry) {
+    errors.expiry = 'Enter the expiry date as MM/YY';
+  } else if (isCardExpired(expiry.month, expiry.year, now)) {
+    errors.expiry = 'This card has expired';
+  } else if (expiry.year > now.getFullYear() + MAX_EXPIRY_YEARS) {
+    errors.expiry = 'Check the expiry date';
+  }
+
+  const cvcLength = getCvcLength(brand);
+  if (!card.cvc) {
+    errors.cvc = 'CVC is required';
+  } else if (!new RegExp(`^\\d{${cvcLength}}$`).test(card.cvc)) {
+    errors.cvc = `CVC must be ${cvcLength} digits`;
+  }
+
+  return errors;
+};
@@ -0,0 +1,83 @@
+import {CartChange, CartItem} from '../models/Cart';
+import {Product} from '../models/Product';
+import {
+  VariantSelectionError,
+  assertPurchasable,
+  calculateUnitPrice,
+} from './pricing';
+
+export interface RevalidatedItem {
+  // null when the item can no longer be bought and leaves the cart
+  item: CartItem | null;
+  changes: CartChange[];
+}
+
+/**
+ * Compares a cart line against the latest catalog entry and stock level.
+ * `product` is null for products the catalog no longer has; `available` is
+ * null when the stock level could not be loaded.
+ */
+export const revalidateCartItem = (
+  item: CartItem,
+  product: Product | null,
+  available: number | null,
+): RevalidatedItem => {
+  const base = {
+    itemId: item.id,
+    productId: item.productId,
+    productName: item.product.name,
+  };
+
+  if (!product) {
+    return {item: null, changes: [{...base, type: 'discontinued'}]};
+  }
+
+  let unitPrice: number;
+  try {
+    assertPurchasable(product, item.selectedVariants);
+    unitPrice = calculateUnitPrice(product, item.selectedVariants);
+  } catch (error) {
+    if (
+      error instanceof VariantSelectionError &&
+      error.reason === 'unknown_variant'
+    ) {
+      return {item: null, changes: [{...base, type: 'discontinued'}]};
+    }
+    if (error instanceof VariantSelectionError) {
+      return {item: null, changes: [{...base, type: 'out_of_stock'}]};
+    }
+    throw error;
+  }
+
+  if (available === 0) {
+    return {item: null, changes: [{...base, type: 'out_of_stock'}]};
+  }
+
+  const refreshed: CartItem = {
+    ...item,
+    product,
+    unitPrice,
+    maxQuantity: available ?? item.maxQuantity,
+  };
+
+  const changes: CartChange[] = [];
+  if (unitPrice !== item.unitPrice) {
+    changes.push({
+      ...base,
+      type: 'price_changed',
+      previousPrice: item.unitPrice,
+      newPrice: unitPrice,
+    });
+  }
+  if (available !== null && item.quantity > available) {
+    changes.push({
+      ...base,
+      type: 'quantity_reduced',
+      previousQuantity: item.quantity,
+      newQuantity: available,
+    });
+    return {item: {...refreshed, quantity: available}, changes};
+  }
+
+  return {item: refreshed, changes};
+};
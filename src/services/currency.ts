@@ -0,0 +1,84 @@
+import {
+  BASE_CURRENCY,
+  CURRENCIES,
+  CurrencyInfo,
+} from '../config/currency.config';
+import {Order} from '../models/Order';
+
+export const isSupportedCurrency = (code: string): boolean =>
+  code.toUpperCase() in CURRENCIES;
+
+// Unknown currencies fall back to the base currency rather than failing
+export const getCurrencyInfo = (code: string): CurrencyInfo =>
+  CURRENCIES[code.toUpperCase()] || CURRENCIES[BASE_CURRENCY];
+
+export const getExchangeRate = (from: string, to: string): number =>
+  getCurrencyInfo(to).rate / getCurrencyInfo(from).rate;
+
+export const roundToCurrency = (amount: number, currency: string): number => {
+  const factor = Math.pow(10, getCurrencyInfo(currency).decimals);
+  return Math.round(amount * factor) / factor;
+};
+
+/**
+ * Converts an amount between currencies, rounded to the smallest unit of
+ * the target currency. Pass `rate` to use a locked-in rate instead of the
+ * current one.
+ */
+export const convertAmount = (
+  amount: number,
+  from: string,
+  to: string,
+  rate: number = getExchangeRate(from, to),
+): number => roundToCurrency(amount * rate, to);
+
+/**
+ * Formats an amount already in `currency` using that currency's locale.
+ * Falls back to the symbol and a fixed number of decimals where the
+ * JavaScript engine has no Intl support.
+ */
+export const formatMoney = (amount: number, currency: string): string => {
+  const info = getCurrencyInfo(currency);
+  try {
+    return new Intl.NumberFormat(info.locale, {
+      style: 'currency',
+      currency: info.code,
+      minimumFractionDigits: info.decimals,
+      maximumFractionDigits: info.decimals,
+    }).format(amount);
+  } catch {
+    const sign = amount < 0 ? '-' : '';
+    return `${sign}${info.symbol}${Math.abs(amount).toFixed(info.decimals)}`;
+  }
+};
+
+/**
+ * Formats a catalog amount for display in the shopper's currency.
+ */
+export const formatPrice = (
+  amount: number,
+  displayCurrency: string,
+  from: string = BASE_CURRENCY,
+): string =>
+  formatMoney(convertAmount(amount, from, displayCurrency), displayCurrency);
+
+// Orders store catalog amounts and are shown and charged in their own
+// currency at the rate locked in when they were placed
+export const getOrderCurrency = (order: Order): string =>
+  order.currency || BASE_CURRENCY;
+
+export const formatOrderAmount = (amount: number, order: Order): string => {
+  const currency = getOrderCurrency(order);
+  return formatMoney(
+    convertAmount(amount, BASE_CURRENCY, currency, order.exchangeRate ?? 1),
+    currency,
+  );
+};
+
+export const getChargeAmount = (order: Order): number =>
+  convertAmount(
+    order.total,
+    BASE_CURRENCY,
+    getOrderCurrency(order),
+    order.exchangeRate ?? 1,
+  );
@@ -0,0 +1,302 @@
+import {CartItem} from '../models/Cart';
+import {
+  DiscountAllocation,
+  DiscountLine,
+  DiscountableLine,
+  Promotion,
+  PromotionType,
+} from '../models/Promotion';
+import {BASE_CURRENCY} from '../config/currency.config';
+import {formatPrice} from './currency';
+import {roundToCents} from '../utils';
+
+export type PromotionFailure =
+  | 'already_applied'
+  | 'expired'
+  | 'minimum_not_met'
+  | 'no_eligible_items'
+  | 'not_stackable';
+
+/**
+ * Error raised when a promotion cannot be applied to a cart.
+ */
+export class PromotionError extends Error {
+  reason: PromotionFailure;
+
+  constructor(reason: PromotionFailure, message: string) {
+    super(message);
+    this.name = 'PromotionError';
+    this.reason = reason;
+  }
+}
+
+// Item discounts are applied before order-level ones so the result does not
+// depend on the order the codes were entered in
+const APPLICATION_ORDER: PromotionType[] = [
+  'buy_x_get_y',
+  'percentage',
+  'fixed_amount',
+  'free_shipping',
+];
+
+const lineSubtotal = (line: DiscountableLine): number =>
+  line.unitPrice * line.quantity;
+
+const sumLines = (lines: DiscountableLine[]): number =>
+  lines.reduce((sum, line) => sum + lineSubtotal(line), 0);
+
+const sumAmounts = (amounts: number[]): number =>
+  amounts.reduce((sum, amount) => sum + amount, 0);
+
+const isEligible = (promotion: Promotion, line: DiscountableLine): boolean =>
+  !promotion.category ||
+  line.category.toLowerCase() === promotion.category.toLowerCase();
+
+/**
+ * Buy X get Y: eligible units are ranked from most to least expensive and
+ * grouped into sets of X + Y; the Y cheapest units of each full set are
+ * free. Returns the value of the free units on each line.
+ */
+const calculateFreeUnitValues = (
+  promotion: Promotion,
+  lines: DiscountableLine[],
+): number[] => {
+  const buy = promotion.buyQuantity || 1;
+  const get = promotion.getQuantity || 1;
+  const units = lines
+    .flatMap((line, index) =>
+      isEligible(promotion, line)
+        ? Array<number>(line.quantity).fill(index)
+        : [],
+    )
+    .sort((a, b) => lines[b].unitPrice - lines[a].unitPrice);
+
+  const values = lines.map(() => 0);
+  for (let start = 0; start + buy + get <= units.length; start += buy + get) {
+    units.slice(start + buy, start + buy + get).forEach(index => {
+      values[index] += lines[index].unitPrice;
+    });
+  }
+  return values;
+};
+
+/**
+ * Amount a single item promotion takes off each of the given lines, before
+ * any cap. Lines outside the promotion's category get nothing.
+ */
+const calculateLineDiscounts = (
+  promotion: Promotion,
+  lines: DiscountableLine[],
+): number[] => {
+  const eligibleSubtotal = sumLines(
+    lines.filter(line => isEligible(promotion, line)),
+  );
+  switch (promotion.type) {
+    case 'percentage':
+      return lines.map(line =>
+        isEligible(promotion, line)
+          ? (lineSubtotal(line) * promotion.value) / 100
+          : 0,
+      );
+    case 'fixed_amount': {
+      const amount = Math.min(promotion.value, eligibleSubtotal);
+      return lines.map(line =>
+        isEligible(promotion, line) && eligibleSubtotal > 0
+          ? (amount * lineSubtotal(line)) / eligibleSubtotal
+          : 0,
+      );
+    }
+    case 'buy_x_get_y':
+      return calculateFreeUnitValues(promotion, lines);
+    case 'free_shipping':
+      return lines.map(() => 0);
+  }
+};
+
+/**
+ * Splits a rounded discount over the lines in proportion to what the
+ * promotion took off each. The last line takes the rounding remainder so
+ * the shares add up to the discount exactly.
+ */
+const allocateDiscount = (
+  lines: DiscountableLine[],
+  lineDiscounts: number[],
+  amount: number,
+): DiscountAllocation[] => {
+  const uncapped = sumAmounts(lineDiscounts);
+  const applied = lines
+    .map((line, index) => ({
+      lineId: line.id,
+      lineDiscount: lineDiscounts[index],
+    }))
+    .filter(({lineDiscount}) => lineDiscount > 0);
+
+  let allocated = 0;
+  return applied.map(({lineId, lineDiscount}, index) => {
+    const share =
+      index === applied.length - 1
+        ? roundToCents(amount - allocated)
+        : roundToCents((amount * lineDiscount) / uncapped);
+    allocated += share;
+    return {lineId, amount: share};
+  });
+};
+
+// Amounts are shown in the shopper's currency
+const describeFailure = (
+  reason: PromotionFailure,
+  promotion: Promotion,
+  currency: string,
+): string => {
+  switch (reason) {
+    case 'already_applied':
+      return `${promotion.code} has already been applied`;
+    case 'expired':
+      return `${promotion.code} has expired`;
+    case 'minimum_not_met': {
+      const minimum = formatPrice(promotion.minSubtotal || 0, currency);
+      return `${promotion.code} requires a subtotal of at least ${minimum}`;
+    }
+    case 'no_eligible_items':
+      return promotion.category
+        ? `${promotion.code} only applies to ${promotion.category} items`
+        : `${promotion.code} does not apply to the items in your cart`;
+    case 'not_stackable':
+      return `${promotion.code} cannot be combined with your other promotions`;
+  }
+};
+
+/**
+ * Why the promotion cannot be added to the ones already applied, or null
+ * when it can. Promotions that are not stackable must be used alone, and
+ * only one free shipping promotion can be used per order.
+ */
+const findFailure = (
+  promotion: Promotion,
+  lines: DiscountableLine[],
+  applied: Promotion[],
+  now: number,
+): PromotionFailure | null => {
+  if (
+    applied.some(p => p.code.toUpperCase() === promotion.code.toUpperCase())
+  ) {
+    return 'already_applied';
+  }
+  if (promotion.expiresAt && new Date(promotion.expiresAt).getTime() <= now) {
+    return 'expired';
+  }
+  if (promotion.minSubtotal && sumLines(lines) < promotion.minSubtotal) {
+    return 'minimum_not_met';
+  }
+  if (
+    promotion.type !== 'free_shipping' &&
+    sumAmounts(calculateLineDiscounts(promotion, lines)) <= 0
+  ) {
+    return 'no_eligible_items';
+  }
+  if (
+    applied.length > 0 &&
+    (!promotion.stackable ||
+      applied.some(p => !p.stackable) ||
+      (promotion.type === 'free_shipping' &&
+        applied.some(p => p.type === 'free_shipping')))
+  ) {
+    return 'not_stackable';
+  }
+  return null;
+};
+
+/**
+ * Throws a PromotionError unless the promotion can be added to the already
+ * applied ones for these lines. The error message quotes amounts in the
+ * given display currency.
+ */
+export const assertPromotionApplies = (
+  promotion: Promotion,
+  lines: DiscountableLine[],
+  applied: Promotion[],
+  currency: string = BASE_CURRENCY,
+  now = Date.now(),
+): void => {
+  const failure = findFailure(promotion, lines, applied, now);
+  if (failure) {
+    throw new PromotionError(
+      failure,
+      describeFailure(failure, promotion, currency),
+    );
+  }
+};
+
+/**
+ * Discount lines for the promotions on an order. Promotions that no longer
+ * apply (expired, or the cart shrank below their minimum) are left out, and
+ * item discounts together never exceed the merchandise subtotal. Item
+ * discounts carry the share of their amount taken off each line.
+ */
+export const calculateDiscounts = (
+  promotions: Promotion[],
+  lines: DiscountableLine[],
+  shippingCost: number,
+  now = Date.now(),
+): DiscountLine[] => {
+  const subtotal = sumLines(lines);
+  let remaining = subtotal;
+
+  return [...promotions]
+    .sort(
+      (a, b) =>
+        APPLICATION_ORDER.indexOf(a.type) - APPLICATION_ORDER.indexOf(b.type),
+    )
+    .flatMap(promotion => {
+      const failure = findFailure(promotion, lines, [], now);
+      if (failure) {
+        return [];
+      }
+
+      const discount: DiscountLine = {
+        code: promotion.code,
+        description: promotion.description,
+        type: promotion.type,
+        amount: 0,
+      };
+      if (promotion.type === 'free_shipping') {
+        discount.amount = roundToCents(shippingCost);
+      } else {
+        const lineDiscounts = calculateLineDiscounts(promotion, lines);
+        discount.amount = roundToCents(
+          Math.min(sumAmounts(lineDiscounts), remaining),
+        );
+        discount.allocations = allocateDiscount(
+          lines,
+          lineDiscounts,
+          discount.amount,
+        );
+        remaining -= discount.amount;
+      }
+      return discount.amount > 0 ? [discount] : [];
+    });
+};
+
+export const sumDiscounts = (discounts: DiscountLine[]): number =>
+  roundToCents(discounts.reduce((sum, line) => sum + line.amount, 0));
+
+// What the item discounts together take off one line, which is what tax on
+// that line is charged on
+export const sumLineDiscounts = (
+  discounts: DiscountLine[],
+  lineId: string,
+): number =>
+  roundToCents(
+    discounts
+      .flatMap(discount => discount.allocations || [])
+      .filter(allocation => allocation.lineId === lineId)
+      .reduce((sum, allocation) => sum + allocation.amount, 0),
+  );
+
+export const toDiscountableLines = (items: CartItem[]): DiscountableLine[] =>
+  items.map(item => ({
+    id: item.id,
+    category: item.product.category,
+    unitPrice: item.unitPrice,
+    quantity: item.quantity,
+  }));
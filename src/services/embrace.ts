@@ -27,7 +27,9 @@ import {
   startView,
   recordCompletedSpan,
 } from '@embrace-io/react-native-tracer-provider';
-import {Tracer, Span, SpanStatusCode} from '@opentelemetry/api';
+import {Tracer, Span, SpanStatusCode, context, trace} from '@opentelemetry/api';
+import {randomService} from './random';
+import {DiscountLine} from '../models/Promotion';
 
 export type LogSeverity = 'info' | 'warning' | 'error';
 export type HttpMethod =
@@ -73,9 +75,24 @@ interface CartInfo {
   cartSubtotal?: number;
 }
 
+interface CartMergeInfo {
+  strategy: string;
+  localItemCount: number;
+  remoteItemCount: number;
+  mergedItemCount: number;
+  conflictCount: number;
+}
+
+interface CartRevalidationInfo {
+  trigger: string;
+  itemCount: number;
+  changes: {type: string}[];
+}
+
 interface PurchaseInfo {
   orderId: string;
   totalAmount: number;
+  currency?: string;
   itemCount: number;
   paymentMethod?: string;
 }
@@ -91,6 +108,7 @@ class EmbraceService {
   private tracerProvider: EmbraceNativeTracerProvider | null = null;
   private tracer: Tracer | null = null;
   private activeSpans: Map<string, Span> = new Map();
+  private spanCounter = 0;
 
   async initialize(): Promise<boolean> {
     try {
@@ -126,6 +144,12 @@ class EmbraceService {
           'session_run_source',
           Platform.OS === 'ios' ? 'Simulator' : 'Emulator',
         );
+        // Reuse this seed in random.config.ts to replay the session's simulated behavior
+        this.addSessionProperty(
+          'random_seed',
+          randomService.getSeed().toString(),
+          true,
+        );
 
         // Start CI crash simulation if enabled
         this.startCICrashSimulation();
@@ -215,13 +239,25 @@ class EmbraceService {
   // SPANS - Performance Monitoring
   // ============================================
 
-  startSpan(name: string, attributes?: Record<string, string>): string | null {
+  startSpan(
+    name: string,
+    attributes?: Record<string, string>,
+    parentSpanId?: string | null,
+  ): string | null {
     if (!this.isInitialized || !this.tracer) return null;
     try {
-      const span = this.tracer.startSpan(name, {
-        attributes: attributes as Record<string, string>,
-      });
-      const spanId = `${name}_${Date.now()}`;
+      // Nest under the parent span when one is given and still active
+      const parent = parentSpanId
+        ? this.activeSpans.get(parentSpanId)
+        : undefined;
+      const span = this.tracer.startSpan(
+        name,
+        {
+          attributes: attributes as Record<string, string>,
+        },
+        parent ? trace.setSpan(context.active(), parent) : undefined,
+      );
+      const spanId = `${name}_${Date.now()}_${++this.spanCounter}`;
       this.activeSpans.set(spanId, span);
       return spanId;
     } catch (error) {
@@ -264,6 +300,7 @@ class EmbraceService {
     endTime: number,
     attributes?: Record<string, string>,
     success = true,
+    parentSpanId?: string | null,
   ): void {
     if (!this.isInitialized || !this.tracer) return;
     try {
@@ -274,6 +311,7 @@ class EmbraceService {
         status: success
           ? {code: SpanStatusCode.OK}
           : {code: SpanStatusCode.ERROR},
+        parent: parentSpanId ? this.activeSpans.get(parentSpanId) : undefined,
       });
     } catch (error) {
       console.warn('Failed to record completed span:', error);
@@ -494,6 +532,83 @@ class EmbraceService {
     this.addSessionProperty('cart_item_count', '0');
   }
 
+  trackCartMerge(info: CartMergeInfo, startTime: number): void {
+    this.addBreadcrumb(`CART_MERGED_${info.strategy.toUpperCase()}`);
+
+    const attributes: Record<string, string> = {
+      'cart.merge.strategy': info.strategy,
+      'cart.merge.local_items': info.localItemCount.toString(),
+      'cart.merge.remote_items': info.remoteItemCount.toString(),
+      'cart.merge.merged_items': info.mergedItemCount.toString(),
+      'cart.merge.conflicts': info.conflictCount.toString(),
+    };
+
+    this.recordCompletedSpan('cart_merge', startTime, Date.now(), attributes);
+    this.logInfo('Cart merged', attributes);
+    this.addSessionProperty(
+      'cart_item_count',
+      info.mergedItemCount.toString(),
+    );
+  }
+
+  trackCartRevalidation(info: CartRevalidationInfo, startTime: number): void {
+    this.addBreadcrumb(`CART_REVALIDATED_${info.trigger.toUpperCase()}`);
+
+    const attributes: Record<string, string> = {
+      'cart.revalidation.trigger': info.trigger,
+      'cart.item_count': info.itemCount.toString(),
+      'cart.revalidation.change_count': info.changes.length.toString(),
+    };
+    info.changes.forEach(change => {
+      const key = `cart.revalidation.${change.type}`;
+      attributes[key] = ((parseInt(attributes[key], 10) || 0) + 1).toString();
+    });
+
+    this.recordCompletedSpan(
+      'cart_revalidation',
+      startTime,
+      Date.now(),
+      attributes,
+    );
+    if (info.changes.length > 0) {
+      this.logWarning('Cart changed since items were added', attributes);
+    } else {
+      this.logInfo('Cart revalidated', attributes);
+    }
+  }
+
+  // Promotion tracking
+  trackPromoCodeApplied(discount: DiscountLine): void {
+    this.addBreadcrumb('PROMO_CODE_APPLIED');
+    this.logInfo('Promo code applied', {
+      'promo.code': discount.code,
+      'promo.type': discount.type,
+      'promo.discount': discount.amount.toString(),
+    });
+  }
+
+  trackPromoCodeRejected(
+    code: string,
+    errorMessage: string,
+    failureReason: string,
+  ): void {
+    this.addBreadcrumb('PROMO_CODE_REJECTED');
+    this.logWarning('Promo code rejected', {
+      'promo.code': code,
+      'error.message': errorMessage,
+      'failure.reason': failureReason,
+    });
+  }
+
+  // Logs which fields failed and never their values, which are personal data
+  trackAddressValidationFailed(country: string, fields: string[]): void {
+    this.addBreadcrumb('ADDRESS_VALIDATION_FAILED');
+    this.logWarning('Address validation failed', {
+      'address.country': country,
+      'address.invalid_fields': fields.join(','),
+    });
+  }
+
   // Purchase tracking with spans
   trackPurchaseAttempt(info: PurchaseInfo): void {
     const startTime = Date.now();
@@ -504,6 +619,9 @@ class EmbraceService {
       'order.total': info.totalAmount.toString(),
       'order.item_count': info.itemCount.toString(),
     };
+    if (info.paymentMethod) {
+      attributes['payment.method'] = info.paymentMethod;
+    }
 
     this.recordCompletedSpan(
       'purchase_attempt',
@@ -524,6 +642,9 @@ class EmbraceService {
       'order.total': info.totalAmount.toString(),
       'order.item_count': info.itemCount.toString(),
     };
+    if (info.currency) {
+      attributes['order.currency'] = info.currency;
+    }
     if (info.paymentMethod) {
       attributes['payment.method'] = info.paymentMethod;
     }
@@ -541,10 +662,32 @@ class EmbraceService {
     this.addSessionProperty('cart_item_count', '0');
   }
 
+  // One span per phase a payment intent spends time in (pending, then
+  // processing), nested under the checkout trace. A failed span means the
+  // intent failed during that phase.
+  trackPaymentIntentPhase(
+    phase: 'pending' | 'processing',
+    paymentIntentId: string,
+    startTime: number,
+    traceSpanId: string | null | undefined,
+    attributes: Record<string, string>,
+    success = true,
+  ): void {
+    this.recordCompletedSpan(
+      `payment_intent_${phase}`,
+      startTime,
+      Date.now(),
+      {'payment_intent.id': paymentIntentId, ...attributes},
+      success,
+      traceSpanId,
+    );
+  }
+
   trackPurchaseFailure(
     orderId: string,
     errorMessage: string,
     failureReason?: string,
+    paymentMethod?: string,
   ): void {
     const startTime = Date.now();
     this.addBreadcrumb('CHECKOUT_FAILED');
@@ -556,6 +699,9 @@ class EmbraceService {
     if (failureReason) {
       attributes['failure.reason'] = failureReason;
     }
+    if (paymentMethod) {
+      attributes['payment.method'] = paymentMethod;
+    }
 
     this.recordCompletedSpan(
       'purchase_failure',
@@ -594,6 +740,125 @@ class EmbraceService {
     this.logWarning('Checkout abandoned', {'checkout.step': step.toString()});
   }
 
+  // Reports the brand and the failing fields only; the card number, expiry
+  // and CVC never leave the device in telemetry
+  trackCardValidationFailed(brand: string, fields: string[]): void {
+    this.addBreadcrumb('CARD_VALIDATION_FAILED');
+    this.logWarning('Card validation failed', {
+      'checkout.step': 'payment',
+      'card.brand': brand,
+      'card.invalid_fields': fields.join(','),
+    });
+  }
+
+  // Order lifecycle tracking
+  trackOrderStatusChange(
+    orderId: string,
+    fromStatus: string,
+    toStatus: string,
+    trackingNumber?: string,
+  ): void {
+    this.addBreadcrumb(
+      `ORDER_STATUS_${fromStatus.toUpperCase()}_TO_${toStatus.toUpperCase()}`,
+    );
+
+    const attributes: Record<string, string> = {
+      'order.id': orderId,
+      'order.status.from': fromStatus,
+      'order.status.to': toStatus,
+    };
+    if (trackingNumber) {
+      attributes['order.tracking_number'] = trackingNumber;
+    }
+
+    this.logInfo('Order status changed', attributes);
+  }
+
+  // Post-purchase tracking with spans
+  trackOrderCancellation(orderId: string, reason: string): void {
+    const startTime = Date.now();
+    this.addBreadcrumb('ORDER_CANCELLED');
+
+    const attributes: Record<string, string> = {
+      'order.id': orderId,
+      'cancellation.reason': reason,
+    };
+
+    this.recordCompletedSpan(
+      'order_cancellation',
+      startTime,
+      Date.now(),
+      attributes,
+    );
+    this.logInfo('Order cancelled', attributes);
+  }
+
+  trackOrderCancellationFailure(
+    orderId: string,
+    errorMessage: string,
+    failureReason?: string,
+  ): void {
+    const startTime = Date.now();
+    this.addBreadcrumb('ORDER_CANCELLATION_FAILED');
+
+    const attributes: Record<string, string> = {
+      'order.id': orderId,
+      'error.message': errorMessage,
+    };
+    if (failureReason) {
+      attributes['failure.reason'] = failureReason;
+    }
+
+    this.recordCompletedSpan(
+      'order_cancellation_failure',
+      startTime,
+      Date.now(),
+      attributes,
+      false,
+    );
+    this.logError('Order cancellation failed', attributes);
+  }
+
+  trackRefundRequested(orderId: string, amount: number, reason: string): void {
+    const startTime = Date.now();
+    this.addBreadcrumb('ORDER_REFUNDED');
+
+    const attributes: Record<string, string> = {
+      'order.id': orderId,
+      'refund.amount': amount.toString(),
+      'refund.reason': reason,
+    };
+
+    this.recordCompletedSpan('order_refund', startTime, Date.now(), attributes);
+    this.logInfo('Order refunded', attributes);
+  }
+
+  trackRefundFailure(
+    orderId: string,
+    errorMessage: string,
+    failureReason?: string,
+  ): void {
+    const startTime = Date.now();
+    this.addBreadcrumb('ORDER_REFUND_FAILED');
+
+    const attributes: Record<string, string> = {
+      'order.id': orderId,
+      'error.message': errorMessage,
+    };
+    if (failureReason) {
+      attributes['failure.reason'] = failureReason;
+    }
+
+    this.recordCompletedSpan(
+      'order_refund_failure',
+      startTime,
+      Date.now(),
+      attributes,
+      false,
+    );
+    this.logError('Order refund failed', attributes);
+  }
+
   // Search tracking with span
   trackSearch(info: SearchInfo): void {
     const startTime = Date.now();
@@ -775,7 +1040,7 @@ class EmbraceService {
 
     // Calculate crash probability (20% chance)
     const crashProbabilityThreshold = 79;
-    const probability = Math.floor(Math.random() * 100);
+    const probability = randomService.int(0, 100, 'ci_crash');
     const willCrash = probability > crashProbabilityThreshold;
 
     console.log(
@@ -787,7 +1052,7 @@ class EmbraceService {
       console.log('[CI Mode] Crash scheduled for this session');
 
       // Wait 20-35 seconds before crashing to allow telemetry generation
-      const delayMs = 20000 + Math.floor(Math.random() * 15000);
+      const delayMs = 20000 + randomService.int(0, 15000, 'ci_crash');
       console.log(`[CI Mode] Crash will occur in ${delayMs / 1000} seconds`);
 
       setTimeout(() => {
@@ -0,0 +1,242 @@
+import {HttpMethod} from './embrace';
+import {ApiError, TransportResponse, matchesEndpoint} from './transport';
+import {randomService} from './random';
+import {delay} from '../utils';
+import {PaymentDeclineCode} from '../models/Payment';
+import {PAYMENT_DECLINES} from '../config/payment.config';
+
+export type FaultType =
+  | 'latency'
+  | 'timeout'
+  | 'http_error'
+  | 'malformed_payload'
+  | 'partial_response';
+
+export interface FaultRule {
+  // Exact endpoint path, or a prefix ending in '*'. Query strings are ignored.
+  endpoint: string;
+  method?: HttpMethod;
+  fault: FaultType;
+  probability: number;
+  latencyMs?: number;
+  statusCode?: number;
+  message?: string;
+  // Machine-readable reason carried by the injected ApiError
+  code?: string;
+}
+
+export type FaultProfileName =
+  | 'none'
+  | 'default'
+  | 'latency_spikes'
+  | 'flaky_network'
+  | 'server_errors'
+  | 'bad_payloads'
+  | 'chaos';
+
+// The issuer declines a payment with the given reason
+const declineRule = (
+  code: PaymentDeclineCode,
+  probability: number,
+): FaultRule => ({
+  endpoint: '/payments/process',
+  method: 'POST',
+  fault: 'http_error',
+  probability,
+  latencyMs: 1500,
+  statusCode: 402,
+  message: PAYMENT_DECLINES[code].message,
+  code,
+});
+
+const DEFAULT_RULES: FaultRule[] = [
+  {
+    endpoint: '/auth/login',
+    method: 'POST',
+    fault: 'http_error',
+    probability: 0.1,
+    latencyMs: 500,
+    statusCode: 401,
+    message: 'Invalid credentials',
+  },
+  declineRule('insufficient_funds', 0.02),
+  declineRule('incorrect_cvc', 0.01),
+  declineRule('expired_card', 0.01),
+  declineRule('fraud_suspected', 0.01),
+];
+
+const LATENCY_RULES: FaultRule[] = [
+  {endpoint: '/products*', fault: 'latency', probability: 0.3, latencyMs: 4000},
+  {
+    endpoint: '/categories',
+    fault: 'latency',
+    probability: 0.3,
+    latencyMs: 3000,
+  },
+  {endpoint: '*', fault: 'latency', probability: 0.1, latencyMs: 2000},
+];
+
+const NETWORK_RULES: FaultRule[] = [
+  {endpoint: '*', fault: 'timeout', probability: 0.05, latencyMs: 10000},
+  {endpoint: '*', fault: 'latency', probability: 0.15, latencyMs: 2500},
+];
+
+const SERVER_ERROR_RULES: FaultRule[] = [
+  {
+    endpoint: '/orders',
+    method: 'POST',
+    fault: 'http_error',
+    probability: 0.1,
+    statusCode: 503,
+  },
+  {
+    endpoint: '/payments/process',
+    fault: 'http_error',
+    probability: 0.1,
+    statusCode: 502,
+  },
+  {
+    endpoint: '/products*',
+    fault: 'http_error',
+    probability: 0.05,
+    statusCode: 500,
+  },
+  {
+    endpoint: '*',
+    fault: 'http_error',
+    probability: 0.03,
+    statusCode: 429,
+    message: 'Too many requests',
+  },
+  {endpoint: '*', fault: 'http_error', probability: 0.02, statusCode: 404},
+];
+
+const PAYLOAD_RULES: FaultRule[] = [
+  {endpoint: '/products*', fault: 'partial_response', probability: 0.15},
+  {endpoint: '*', fault: 'malformed_payload', probability: 0.05},
+];
+
+export const FAULT_PROFILES: Record<FaultProfileName, FaultRule[]> = {
+  none: [],
+  default: DEFAULT_RULES,
+  latency_spikes: [...DEFAULT_RULES, ...LATENCY_RULES],
+  flaky_network: [...DEFAULT_RULES, ...NETWORK_RULES],
+  server_errors: [...DEFAULT_RULES, ...SERVER_ERROR_RULES],
+  bad_payloads: [...DEFAULT_RULES, ...PAYLOAD_RULES],
+  chaos: [
+    ...DEFAULT_RULES,
+    ...SERVER_ERROR_RULES,
+    ...NETWORK_RULES,
+    ...PAYLOAD_RULES,
+    ...LATENCY_RULES,
+  ],
+};
+
+/**
+ * Error raised for injected faults that never produce an HTTP status code
+ * (timeouts and unparseable payloads). Injected status codes use ApiError.
+ */
+export class InjectedFaultError extends Error {
+  faultType: FaultType;
+
+  constructor(faultType: FaultType, message: string) {
+    super(message);
+    this.name = 'InjectedFaultError';
+    this.faultType = faultType;
+  }
+}
+
+class FaultInjector {
+  private profile: FaultProfileName = 'none';
+  private rules: FaultRule[] = [];
+
+  /**
+   * Activates a profile. Overrides are evaluated before the profile's own
+   * rules, so they can add or shadow faults for specific endpoints. Rolls
+   * come from the seeded 'faults' stream, so reusing the session seed
+   * replays the same faults for the same request order.
+   */
+  configure(profile: FaultProfileName, overrides: FaultRule[] = []): void {
+    this.profile = profile;
+    this.rules = [...overrides, ...FAULT_PROFILES[profile]];
+  }
+
+  getProfile(): FaultProfileName {
+    return this.profile;
+  }
+
+  /**
+   * Rolls each matching rule in order and returns the first one that fires.
+   */
+  pick(method: HttpMethod, endpoint: string): FaultRule | null {
+    for (const rule of this.rules) {
+      if (
+        (!rule.method || rule.method === method) &&
+        matchesEndpoint(rule.endpoint, endpoint) &&
+        randomService.chance(rule.probability, 'faults')
+      ) {
+        return rule;
+      }
+    }
+    return null;
+  }
+
+  async apply<T>(
+    rule: FaultRule | null,
+    send: () => Promise<TransportResponse<T>>,
+  ): Promise<TransportResponse<T>> {
+    if (!rule) {
+      return send();
+    }
+
+    switch (rule.fault) {
+      case 'latency':
+        await delay(rule.latencyMs ?? 3000);
+        return send();
+
+      case 'timeout':
+        await delay(rule.latencyMs ?? 10000);
+        throw new InjectedFaultError(
+          'timeout',
+          rule.message ?? 'Request timed out',
+        );
+
+      case 'http_error':
+        await delay(rule.latencyMs ?? 0);
+        throw new ApiError(
+          rule.message ?? `Server responded with ${rule.statusCode ?? 500}`,
+          rule.statusCode ?? 500,
+          rule.code,
+        );
+
+      case 'malformed_payload':
+        await send();
+        throw new InjectedFaultError(
+          'malformed_payload',
+          rule.message ?? 'Malformed response payload',
+        );
+
+      case 'partial_response': {
+        const response = await send();
+        if (!Array.isArray(response.data)) {
+          // A truncated object body cannot be parsed at all
+          throw new InjectedFaultError(
+            'partial_response',
+            rule.message ?? 'Truncated response payload',
+          );
+        }
+        const data = response.data.slice(
+          0,
+          Math.floor(response.data.length / 2),
+        );
+        return {
+          statusCode: 206,
+          data: data as unknown as T,
+          bytesReceived: JSON.stringify(data).length,
+        };
+      }
+    }
+  }
+}
+
+export const faultInjector = new FaultInjector();
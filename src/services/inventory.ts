@@ -0,0 +1,26 @@
+import {CartItem} from '../models/Cart';
+import {ReservationLine} from '../models/Inventory';
+
+/**
+ * Error raised when a cart change asks for more units than are in stock.
+ */
+export class QuantityCapError extends Error {
+  available: number;
+
+  constructor(productName: string, available: number) {
+    super(
+      available === 0
+        ? `${productName} is sold out`
+        : `Only ${available} of ${productName} available`,
+    );
+    this.name = 'QuantityCapError';
+    this.available = available;
+  }
+}
+
+export const toReservationLines = (items: CartItem[]): ReservationLine[] =>
+  items.map(item => ({
+    productId: item.productId,
+    selectedVariants: item.selectedVariants,
+    quantity: item.quantity,
+  }));
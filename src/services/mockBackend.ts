@@ -0,0 +1,1009 @@
+import {Product, Category} from '../models/Product';
+import {User} from '../models/User';
+import {
+  Order,
+  OrderRequest,
+  OrderStatus,
+  ShippingMethod,
+  canTransitionOrder,
+} from '../models/Order';
+import {
+  InventoryReservation,
+  ReservationLine,
+  StockLevel,
+  StockRequest,
+} from '../models/Inventory';
+import {Address, AddressInput} from '../models/Address';
+import {ShippingDestination, ShippingLine} from '../models/Shipping';
+import {Cart} from '../models/Cart';
+import {
+  PaymentChallenge,
+  PaymentChallengeOutcome,
+  PaymentDeclineCode,
+  PaymentMethod,
+  PaymentMethodInput,
+  PaymentRequest,
+  PaymentResult,
+  PaymentStatus,
+} from '../models/Payment';
+import {
+  DiscountLine,
+  DiscountableLine,
+  PromoCodeValidation,
+  Promotion,
+} from '../models/Promotion';
+import {
+  mockProducts,
+  mockCategories,
+  mockUser,
+  mockAddresses,
+  mockPaymentMethods,
+  mockShippingMethods,
+  mockPromotions,
+} from './mockData';
+import {ApiError} from './transport';
+import {randomService} from './random';
+import {MockInventory} from './mockInventory';
+import {calculateTax} from './tax';
+import {isCardExpired} from './cards';
+import {normalizeAddress, validateAddress} from './addressValidation';
+import {buildParcel, quoteShippingMethods} from './shipping';
+import {VariantSelectionError, calculateUnitPrice} from './pricing';
+import {
+  getChargeAmount,
+  getExchangeRate,
+  getOrderCurrency,
+  isSupportedCurrency,
+} from './currency';
+import {BASE_CURRENCY} from '../config/currency.config';
+import {
+  PromotionError,
+  assertPromotionApplies,
+  calculateDiscounts,
+  sumDiscounts,
+} from './discounts';
+import {FULFILLMENT_CONFIG} from '../config/fulfillment.config';
+import {
+  PAYMENT_DECLINES,
+  PAYMENT_PROCESSING_MS,
+  TEST_CARD_BEHAVIORS,
+  TestCardBehavior,
+} from '../config/payment.config';
+import {roundToCents} from '../utils';
+
+interface PaymentIntent {
+  id: string;
+  orderId: string;
+  status: PaymentStatus;
+  challenge?: PaymentChallenge;
+  // When a processing intent succeeds and its order starts processing
+  settlesAt?: number;
+  errorMessage?: string;
+  declineCode?: PaymentDeclineCode;
+}
+
+// The scripted outcome the mock provider put in a test card's token
+const getTestCardBehavior = (token: string): TestCardBehavior | undefined =>
+  Object.values(TEST_CARD_BEHAVIORS).find(behavior =>
+    token.includes(`_${behavior}_`),
+  );
+
+const CHALLENGE_OUTCOMES: PaymentChallengeOutcome[] = [
+  'authenticated',
+  'failed',
+  'cancelled',
+];
+
+/**
+ * In-memory stand-in for the e-commerce backend. The mock transport calls it
+ * in-process and scripts/mock-server.js serves it over HTTP, so both modes
+ * return the same data. It must not depend on React Native modules.
+ */
+class MockBackend {
+  private orders: Order[] = [];
+  private carts: Map<string, Cart> = new Map();
+  private addressBooks: Map<string, Address[]> = new Map();
+  private paymentVaults: Map<string, PaymentMethod[]> = new Map();
+  private paymentIntents: Map<string, PaymentIntent> = new Map();
+  private idempotentResults: Map<string, {scope: string; result: unknown}> =
+    new Map();
+  private inventory = new MockInventory(id => this.getProductById(id));
+
+  /**
+   * Runs `produce` once per idempotency key and replays its result for every
+   * later request with the same key. Failures are not stored, so a request
+   * that failed can be retried with the same key.
+   */
+  private withIdempotency<T>(
+    key: string | undefined,
+    scope: string,
+    produce: () => T,
+  ): T {
+    if (!key) {
+      return produce();
+    }
+
+    const stored = this.idempotentResults.get(key);
+    if (stored) {
+      if (stored.scope !== scope) {
+        throw new ApiError(
+          'Idempotency key was already used for a different request',
+          422,
+        );
+      }
+      return stored.result as T;
+    }
+
+    const result = produce();
+    this.idempotentResults.set(key, {scope, result});
+    return result;
+  }
+
+  getProducts(category?: string): Product[] {
+    if (!category) {
+      return mockProducts;
+    }
+    return mockProducts.filter(
+      p => p.category.toLowerCase() === category.toLowerCase(),
+    );
+  }
+
+  getProductById(id: string): Product {
+    const product = mockProducts.find(p => p.id === id);
+    if (!product) {
+      throw new ApiError('Product not found', 404);
+    }
+    return product;
+  }
+
+  searchProducts(query: string): Product[] {
+    const lowerQuery = query.toLowerCase();
+    return mockProducts.filter(
+      p =>
+        p.name.toLowerCase().includes(lowerQuery) ||
+        p.description.toLowerCase().includes(lowerQuery) ||
+        p.brand.toLowerCase().includes(lowerQuery) ||
+        p.category.toLowerCase().includes(lowerQuery),
+    );
+  }
+
+  getFeaturedProducts(): Product[] {
+    return mockProducts.slice(0, 4);
+  }
+
+  getNewArrivals(): Product[] {
+    return [...mockProducts]
+      .sort(
+        (a, b) =>
+          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+      )
+      .slice(0, 4);
+  }
+
+  getCategories(): Category[] {
+    return mockCategories;
+  }
+
+  login(_email: string): {user: User; token: string} {
+    return {
+      user: mockUser,
+      token: 'mock-jwt-token-' + Date.now(),
+    };
+  }
+
+  register(
+    email: string,
+    firstName: string,
+    lastName: string,
+  ): {user: User; token: string} {
+    const newUser: User = {
+      id: 'user-' + Date.now(),
+      email,
+      firstName,
+      lastName,
+      dateJoined: new Date().toISOString(),
+      isGuest: false,
+      preferences: {
+        newsletter: false,
+        pushNotifications: true,
+        biometricAuth: false,
+        preferredCurrency: 'USD',
+      },
+    };
+
+    return {
+      user: newUser,
+      token: 'mock-jwt-token-' + Date.now(),
+    };
+  }
+
+  guestLogin(): {user: User; token: string} {
+    const guestUser: User = {
+      id: 'guest-' + Date.now(),
+      email: '',
+      firstName: 'Guest',
+      lastName: 'User',
+      dateJoined: new Date().toISOString(),
+      isGuest: true,
+      preferences: {
+        newsletter: false,
+        pushNotifications: false,
+        biometricAuth: false,
+        preferredCurrency: 'USD',
+      },
+    };
+
+    return {
+      user: guestUser,
+      token: 'guest-token-' + Date.now(),
+    };
+  }
+
+  private getAddressBook(userId: string): Address[] {
+    let book = this.addressBooks.get(userId);
+    if (!book) {
+      // The demo account starts out with the sample addresses
+      book =
+        userId === mockUser.id
+          ? mockAddresses.map(address => ({...address}))
+          : [];
+      this.addressBooks.set(userId, book);
+    }
+    return book;
+  }
+
+  private findAddress(userId: string, addressId: string): Address {
+    const address = this.getAddressBook(userId).find(a => a.id === addressId);
+    if (!address) {
+      throw new ApiError('Address not found', 404);
+    }
+    return address;
+  }
+
+  // Rejects the address with the first validation message, if any
+  private checkAddress(input: AddressInput): AddressInput {
+    const [message] = Object.values(validateAddress(input));
+    if (message) {
+      throw new ApiError(message, 400);
+    }
+    return normalizeAddress(input);
+  }
+
+  // Keeps exactly one default entry whenever the list is not empty
+  private markDefault(
+    entries: {id: string; isDefault: boolean}[],
+    defaultId = entries.find(entry => entry.isDefault)?.id,
+  ): void {
+    entries.forEach((entry, index) => {
+      entry.isDefault = defaultId ? entry.id === defaultId : index === 0;
+    });
+  }
+
+  getAddresses(userId: string): Address[] {
+    return this.getAddressBook(userId);
+  }
+
+  /**
+   * Address book mutations return the whole book because changing the
+   * default address updates the others as well.
+   */
+  addAddress(userId: string, input: AddressInput): Address[] {
+    const book = this.getAddressBook(userId);
+    const address: Address = {
+      ...this.checkAddress(input),
+      id: 'addr-' + randomService.id(9, 'address_ids'),
+    };
+    book.push(address);
+    this.markDefault(book, address.isDefault ? address.id : undefined);
+    return book;
+  }
+
+  updateAddress(
+    userId: string,
+    addressId: string,
+    input: AddressInput,
+  ): Address[] {
+    const book = this.getAddressBook(userId);
+    const address = this.findAddress(userId, addressId);
+    Object.assign(address, {
+      ...this.checkAddress(input),
+      // The default only moves when another address is made the default
+      isDefault: address.isDefault || input.isDefault,
+    });
+    this.markDefault(book, address.isDefault ? addressId : undefined);
+    return book;
+  }
+
+  // Deleting an address that is already gone is a no-op
+  deleteAddress(userId: string, addressId: string): Address[] {
+    const book = this.getAddressBook(userId);
+    const index = book.findIndex(a => a.id === addressId);
+    if (index >= 0) {
+      book.splice(index, 1);
+      this.markDefault(book);
+    }
+    return book;
+  }
+
+  setDefaultAddress(userId: string, addressId: string): Address[] {
+    const book = this.getAddressBook(userId);
+    this.findAddress(userId, addressId);
+    this.markDefault(book, addressId);
+    return book;
+  }
+
+  private getPaymentVault(userId: string): PaymentMethod[] {
+    let vault = this.paymentVaults.get(userId);
+    if (!vault) {
+      vault =
+        userId === mockUser.id
+          ? mockPaymentMethods.map(method => ({...method}))
+          : [];
+      this.paymentVaults.set(userId, vault);
+    }
+    return vault;
+  }
+
+  getPaymentMethods(userId: string): PaymentMethod[] {
+    return this.getPaymentVault(userId);
+  }
+
+  /**
+   * Saves a tokenized payment method. Saving a token that is already in the
+   * vault leaves the vault as it is, apart from the default, so repeating
+   * the request is harmless.
+   */
+  savePaymentMethod(
+    userId: string,
+    input: PaymentMethodInput,
+    makeDefault = false,
+  ): PaymentMethod[] {
+    if (!input.token) {
+      throw new ApiError('A payment token is required', 400);
+    }
+    const {cardInfo} = input;
+    if (cardInfo && isCardExpired(cardInfo.expiryMonth, cardInfo.expiryYear)) {
+      throw new ApiError('This card has expired', 422);
+    }
+
+    const vault = this.getPaymentVault(userId);
+    let method = vault.find(m => m.token === input.token);
+    if (!method) {
+      method = {
+        ...input,
+        id: 'pm-' + randomService.id(9, 'payment_method_ids'),
+        isDefault: false,
+      };
+      vault.push(method);
+    }
+    this.markDefault(vault, makeDefault ? method.id : undefined);
+    return vault;
+  }
+
+  // Removing a payment method that is already gone is a no-op
+  deletePaymentMethod(userId: string, paymentMethodId: string): PaymentMethod[] {
+    const vault = this.getPaymentVault(userId);
+    const index = vault.findIndex(m => m.id === paymentMethodId);
+    if (index >= 0) {
+      vault.splice(index, 1);
+      this.markDefault(vault);
+    }
+    return vault;
+  }
+
+  setDefaultPaymentMethod(
+    userId: string,
+    paymentMethodId: string,
+  ): PaymentMethod[] {
+    const vault = this.getPaymentVault(userId);
+    if (!vault.some(m => m.id === paymentMethodId)) {
+      throw new ApiError('Payment method not found', 404);
+    }
+    this.markDefault(vault, paymentMethodId);
+    return vault;
+  }
+
+  getShippingMethods(): ShippingMethod[] {
+    return mockShippingMethods;
+  }
+
+  private findPromotion(code: string): Promotion {
+    const promotion = mockPromotions.find(
+      p => p.code.toUpperCase() === code.trim().toUpperCase(),
+    );
+    if (!promotion) {
+      throw new ApiError(`Promo code ${code} is not valid`, 404);
+    }
+    return promotion;
+  }
+
+  /**
+   * Checks that a promo code can be added to the codes already applied to
+   * the cart. A code that exists but does not apply is rejected with a 422.
+   */
+  validatePromoCode(
+    code: string,
+    lines: DiscountableLine[],
+    appliedCodes: string[],
+    shippingCost: number,
+    currency: string = BASE_CURRENCY,
+  ): PromoCodeValidation {
+    const promotion = this.findPromotion(code);
+    try {
+      assertPromotionApplies(
+        promotion,
+        lines,
+        appliedCodes.map(applied => this.findPromotion(applied)),
+        currency,
+      );
+    } catch (error) {
+      if (error instanceof PromotionError) {
+        throw new ApiError(error.message, 422);
+      }
+      throw error;
+    }
+
+    const [discount] = calculateDiscounts([promotion], lines, shippingCost);
+    return {
+      promotion,
+      discount: discount || {
+        code: promotion.code,
+        description: promotion.description,
+        type: promotion.type,
+        amount: 0,
+      },
+    };
+  }
+
+  /**
+   * Reprices an order's lines from the catalog and its selected variants,
+   * rejecting the order when a price differs from the one the shopper saw.
+   */
+  private applyPricing(
+    orderData: OrderRequest,
+  ): Pick<Order, 'items' | 'subtotal'> {
+    const items = (orderData.items || []).map(item => {
+      let unitPrice: number;
+      try {
+        unitPrice = calculateUnitPrice(
+          this.getProductById(item.productId),
+          item.selectedVariants,
+        );
+      } catch (error) {
+        if (error instanceof VariantSelectionError) {
+          throw new ApiError(error.message, 422);
+        }
+        throw error;
+      }
+      if (Math.abs(unitPrice - item.unitPrice) >= 0.01) {
+        throw new ApiError(`The price of ${item.productName} has changed`, 422);
+      }
+      return {...item, unitPrice};
+    });
+    return {
+      items,
+      subtotal: roundToCents(
+        items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0),
+      ),
+    };
+  }
+
+  /**
+   * Recomputes an order's discounts from its promo codes and the catalog,
+   * rejecting the order when they no longer match what the shopper saw.
+   * Each code is checked against the ones listed before it, so the stacking
+   * rules hold even if the client never validated the codes.
+   */
+  private applyDiscounts(orderData: OrderRequest): {
+    discount: number;
+    discounts: DiscountLine[];
+  } {
+    const codes = (orderData.discounts || []).map(line => line.code);
+    if (codes.length === 0) {
+      return {discount: 0, discounts: []};
+    }
+
+    const promotions = codes.map(code => this.findPromotion(code));
+    const lines = (orderData.items || []).map(item => ({
+      id: item.id,
+      category: this.getProductById(item.productId).category,
+      unitPrice: item.unitPrice,
+      quantity: item.quantity,
+    }));
+    try {
+      promotions.forEach((promotion, index) =>
+        assertPromotionApplies(
+          promotion,
+          lines,
+          promotions.slice(0, index),
+          orderData.currency,
+        ),
+      );
+    } catch (error) {
+      if (error instanceof PromotionError) {
+        throw new ApiError(error.message, 422);
+      }
+      throw error;
+    }
+    const discounts = calculateDiscounts(
+      promotions,
+      lines,
+      orderData.shipping || 0,
+    );
+    const discount = sumDiscounts(discounts);
+    if (
+      discounts.length !== codes.length ||
+      Math.abs(discount - (orderData.discount || 0)) >= 0.01
+    ) {
+      throw new ApiError('Your promo codes no longer apply to this order', 422);
+    }
+    return {discount, discounts};
+  }
+
+  /**
+   * Recomputes an order's tax for its shipping address and stores the
+   * breakdown on its lines, rejecting the order when the total differs from
+   * the tax the shopper saw.
+   */
+  private applyTax(
+    orderData: OrderRequest,
+    discounts: DiscountLine[],
+  ): Pick<Order, 'items' | 'tax' | 'shippingTax'> {
+    const items = orderData.items || [];
+    if (!orderData.shippingAddress) {
+      throw new ApiError('A shipping address is required', 400);
+    }
+
+    const breakdown = calculateTax(
+      orderData.shippingAddress,
+      items.map(item => ({
+        id: item.id,
+        category: this.getProductById(item.productId).category,
+        unitPrice: item.unitPrice,
+        quantity: item.quantity,
+      })),
+      orderData.shipping || 0,
+      discounts,
+    );
+    if (Math.abs(breakdown.total - (orderData.tax || 0)) >= 0.01) {
+      throw new ApiError('Tax for this order has changed', 422);
+    }
+    return {
+      items: items.map((item, index) => ({
+        ...item,
+        taxRate: breakdown.lines[index].taxRate,
+        tax: breakdown.lines[index].tax,
+      })),
+      tax: breakdown.total,
+      shippingTax: breakdown.shippingTax,
+    };
+  }
+
+  quoteShipping(
+    destination: ShippingDestination,
+    lines: ShippingLine[],
+  ): ShippingMethod[] {
+    const parcel = buildParcel(
+      lines.map(line => ({
+        product: this.getProductById(line.productId),
+        quantity: line.quantity,
+      })),
+    );
+    return quoteShippingMethods(mockShippingMethods, parcel, destination);
+  }
+
+  /**
+   * Re-quotes the order's shipping method for its destination, rejecting
+   * the order when the method cannot deliver there or its price moved.
+   */
+  private applyShipping(
+    orderData: OrderRequest,
+  ): Pick<Order, 'shipping' | 'estimatedDelivery'> {
+    if (!orderData.shippingAddress || !orderData.shippingMethodId) {
+      throw new ApiError('A shipping address and method are required', 400);
+    }
+
+    const quote = this.quoteShipping(
+      orderData.shippingAddress,
+      orderData.items || [],
+    ).find(method => method.id === orderData.shippingMethodId);
+    if (!quote) {
+      throw new ApiError('Shipping method not found', 400);
+    }
+    if (!quote.isAvailable) {
+      throw new ApiError(
+        `${quote.name} is not available: ${quote.unavailableReason}`,
+        422,
+      );
+    }
+    if (Math.abs(quote.cost - (orderData.shipping || 0)) >= 0.01) {
+      throw new ApiError('Shipping rates for this order have changed', 422);
+    }
+    return {shipping: quote.cost, estimatedDelivery: quote.estimatedDelivery};
+  }
+
+  getCart(userId: string): Cart {
+    return (
+      this.carts.get(userId) || {
+        id: `cart-${userId}`,
+        userId,
+        items: [],
+        updatedAt: new Date(0).toISOString(),
+      }
+    );
+  }
+
+  /**
+   * Stores the cart unless the server already holds a more recently updated
+   * one, and returns whichever cart won.
+   */
+  saveCart(cart: Cart): Cart {
+    const current = this.carts.get(cart.userId);
+    if (
+      current &&
+      new Date(current.updatedAt).getTime() > new Date(cart.updatedAt).getTime()
+    ) {
+      return current;
+    }
+    this.carts.set(cart.userId, cart);
+    return cart;
+  }
+
+  getStockLevel(
+    request: StockRequest,
+    excludeReservationId?: string,
+  ): StockLevel {
+    return this.inventory.getStockLevel(request, excludeReservationId);
+  }
+
+  reserveInventory(lines: ReservationLine[]): InventoryReservation {
+    return this.inventory.reserve(lines);
+  }
+
+  releaseReservation(reservationId: string): {released: boolean} {
+    this.inventory.release(reservationId);
+    return {released: true};
+  }
+
+  createOrder(orderData: OrderRequest, idempotencyKey?: string): Order {
+    return this.withIdempotency(idempotencyKey, 'orders', () =>
+      this.insertOrder(orderData),
+    );
+  }
+
+  private insertOrder({reservationId, ...orderData}: OrderRequest): Order {
+    const currency = (orderData.currency || BASE_CURRENCY).toUpperCase();
+    if (!isSupportedCurrency(currency)) {
+      throw new ApiError(`Unsupported currency ${currency}`, 400);
+    }
+    this.checkBillingAddress(orderData.billingAddress);
+    const priced = {...orderData, ...this.applyPricing(orderData)};
+    const {shipping, estimatedDelivery} = this.applyShipping(priced);
+    const {discount, discounts} = this.applyDiscounts(priced);
+    const {items, tax, shippingTax} = this.applyTax(priced, discounts);
+    const total = roundToCents(priced.subtotal - discount + tax + shipping);
+    if (Math.abs(total - (orderData.total || 0)) >= 0.01) {
+      throw new ApiError('The total for this order has changed', 422);
+    }
+    this.inventory.commit(items, reservationId);
+
+    const order: Order = {
+      id: 'order-' + Date.now(),
+      orderNumber:
+        'ORD-' + randomService.id(9, 'order_numbers').toUpperCase(),
+      userId: orderData.userId || 'guest',
+      items,
+      shippingAddress: orderData.shippingAddress!,
+      billingAddress: orderData.billingAddress!,
+      paymentMethod: orderData.paymentMethod!,
+      status: 'pending',
+      statusHistory: [],
+      subtotal: priced.subtotal,
+      tax,
+      shippingTax,
+      shipping,
+      shippingMethodId: orderData.shippingMethodId,
+      discount,
+      discounts,
+      total,
+      // The backend's rate is locked in, whatever rate the client showed
+      currency,
+      exchangeRate: getExchangeRate(BASE_CURRENCY, currency),
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      estimatedDelivery,
+    };
+
+    this.orders.push(order);
+    return order;
+  }
+
+  // Cards are authorized against the billing address, so orders and
+  // payments are rejected without a complete one
+  private checkBillingAddress(address?: Address): void {
+    if (!address) {
+      throw new ApiError('A billing address is required', 400);
+    }
+    const [message] = Object.values(validateAddress(address));
+    if (message) {
+      throw new ApiError(`Billing address: ${message}`, 400);
+    }
+  }
+
+  private findOrder(orderId: string): Order {
+    const order = this.orders.find(o => o.id === orderId);
+    if (!order) {
+      throw new ApiError('Order not found', 404);
+    }
+    return order;
+  }
+
+  private transitionOrder(order: Order, status: OrderStatus, at: number): void {
+    if (!canTransitionOrder(order.status, status)) {
+      throw new ApiError(
+        `Cannot change order from ${order.status} to ${status}`,
+        409,
+      );
+    }
+    order.updatedAt = new Date(at).toISOString();
+    order.statusHistory = [
+      ...(order.statusHistory || []),
+      {from: order.status, to: status, changedAt: order.updatedAt},
+    ];
+    order.status = status;
+    if (status === 'cancelled') {
+      // Cancelled orders never ship, so their units go back on the shelf
+      this.inventory.restock(order.items);
+    }
+  }
+
+  /**
+   * Moves paid orders along the simulated fulfillment clock. Runs lazily
+   * whenever orders are read, so each order catches up on every step that
+   * has come due since its last status change.
+   */
+  private advanceFulfillment(now = Date.now()): void {
+    this.settlePaymentIntents(now);
+    this.orders.forEach(order => {
+      let changedAt = new Date(order.updatedAt).getTime();
+
+      if (
+        order.status === 'processing' &&
+        now - changedAt >= FULFILLMENT_CONFIG.processingMs
+      ) {
+        changedAt += FULFILLMENT_CONFIG.processingMs;
+        this.transitionOrder(order, 'shipped', changedAt);
+        order.trackingNumber =
+          'TRK' + randomService.id(12, 'tracking_numbers').toUpperCase();
+        order.estimatedDelivery = new Date(
+          changedAt + FULFILLMENT_CONFIG.inTransitMs,
+        ).toISOString();
+      }
+
+      if (
+        order.status === 'shipped' &&
+        now - changedAt >= FULFILLMENT_CONFIG.inTransitMs
+      ) {
+        this.transitionOrder(
+          order,
+          'delivered',
+          changedAt + FULFILLMENT_CONFIG.inTransitMs,
+        );
+      }
+    });
+  }
+
+  getOrder(orderId: string): Order {
+    this.advanceFulfillment();
+    return this.findOrder(orderId);
+  }
+
+  updateOrderStatus(orderId: string, status: OrderStatus): Order {
+    this.advanceFulfillment();
+    const order = this.findOrder(orderId);
+    // Only the order's payment intent decides whether it was paid
+    if (order.status === 'pending' && status !== 'pending') {
+      throw new ApiError('Order is awaiting payment', 409);
+    }
+    if (order.status !== status) {
+      this.transitionOrder(order, status, Date.now());
+    }
+    return order;
+  }
+
+  /**
+   * Cancels an order that has not shipped yet. Cancelling an already
+   * cancelled order returns it unchanged.
+   */
+  cancelOrder(orderId: string, reason: string): Order {
+    this.advanceFulfillment();
+    const order = this.findOrder(orderId);
+    if (order.status === 'cancelled') {
+      return order;
+    }
+    if (order.status !== 'pending' && order.status !== 'processing') {
+      throw new ApiError(`A ${order.status} order cannot be cancelled`, 409);
+    }
+    this.transitionOrder(order, 'cancelled', Date.now());
+    order.cancellationReason = reason;
+    return order;
+  }
+
+  /**
+   * Refunds a delivered order. Refunding an already refunded order returns
+   * it unchanged.
+   */
+  refundOrder(orderId: string, reason: string): Order {
+    this.advanceFulfillment();
+    const order = this.findOrder(orderId);
+    if (order.status === 'refunded') {
+      return order;
+    }
+    if (order.status !== 'delivered') {
+      throw new ApiError('Only delivered orders can be refunded', 409);
+    }
+    this.transitionOrder(order, 'refunded', Date.now());
+    order.refundReason = reason;
+    return order;
+  }
+
+  getOrders(userId: string): Order[] {
+    this.advanceFulfillment();
+    return this.orders
+      .filter(order => order.userId === userId)
+      .sort(
+        (a, b) =>
+          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+      );
+  }
+
+  /**
+   * Creates a payment intent for a pending order. Test card tokens can leave
+   * it pending with a 3-D Secure challenge or fail it with a decline code;
+   * everything else goes straight to processing and settles after
+   * PAYMENT_PROCESSING_MS.
+   */
+  processPayment(
+    {orderId, amount, currency, paymentToken, billingAddress}: PaymentRequest,
+    idempotencyKey?: string,
+  ): PaymentResult {
+    return this.withIdempotency(idempotencyKey, 'payments', () => {
+      const order = this.findOrder(orderId);
+      if (order.status !== 'pending') {
+        throw new ApiError('Order is not awaiting payment', 409);
+      }
+      if (!paymentToken) {
+        throw new ApiError('A payment token is required', 400);
+      }
+      this.checkBillingAddress(billingAddress);
+      if (currency.toUpperCase() !== getOrderCurrency(order)) {
+        throw new ApiError(
+          `Order must be paid in ${getOrderCurrency(order)}`,
+          400,
+        );
+      }
+      if (Math.abs(getChargeAmount(order) - amount) >= 0.01) {
+        throw new ApiError('Payment amount does not match order total', 400);
+      }
+
+      const intent: PaymentIntent = {
+        id: 'pi_' + randomService.id(14, 'payment_intent_ids'),
+        orderId,
+        status: 'pending',
+      };
+      this.paymentIntents.set(intent.id, intent);
+      const behavior = getTestCardBehavior(paymentToken);
+      if (behavior === 'three_d_secure') {
+        intent.challenge = {type: 'three_d_secure'};
+      } else if (behavior) {
+        this.failIntent(intent, PAYMENT_DECLINES[behavior].message, behavior);
+      } else {
+        this.startProcessing(intent);
+      }
+      return this.toPaymentResult(intent);
+    });
+  }
+
+  getPaymentIntent(paymentIntentId: string): PaymentResult {
+    this.settlePaymentIntents();
+    return this.toPaymentResult(this.findPaymentIntent(paymentIntentId));
+  }
+
+  // Records how the shopper's 3-D Secure challenge went
+  completePaymentChallenge(
+    paymentIntentId: string,
+    outcome: PaymentChallengeOutcome,
+    idempotencyKey?: string,
+  ): PaymentResult {
+    return this.withIdempotency(idempotencyKey, 'payment_challenges', () => {
+      if (!CHALLENGE_OUTCOMES.includes(outcome)) {
+        throw new ApiError(`Unknown challenge outcome ${outcome}`, 400);
+      }
+      const intent = this.findPaymentIntent(paymentIntentId);
+      if (intent.status !== 'pending' || !intent.challenge) {
+        throw new ApiError('Payment is not awaiting authentication', 409);
+      }
+
+      delete intent.challenge;
+      if (outcome === 'authenticated') {
+        this.startProcessing(intent);
+      } else {
+        this.failIntent(
+          intent,
+          outcome === 'cancelled'
+            ? 'Card authentication was cancelled'
+            : 'Your bank could not verify this payment',
+        );
+      }
+      return this.toPaymentResult(intent);
+    });
+  }
+
+  private findPaymentIntent(paymentIntentId: string): PaymentIntent {
+    const intent = this.paymentIntents.get(paymentIntentId);
+    if (!intent) {
+      throw new ApiError('Payment not found', 404);
+    }
+    return intent;
+  }
+
+  private startProcessing(intent: PaymentIntent): void {
+    intent.status = 'processing';
+    intent.settlesAt = Date.now() + PAYMENT_PROCESSING_MS;
+  }
+
+  /**
+   * Settles every processing intent that has come due and moves its order
+   * out of pending. Runs lazily whenever intents or orders are read, so an
+   * order is paid even if the app that started the payment never polls.
+   */
+  private settlePaymentIntents(now = Date.now()): void {
+    this.paymentIntents.forEach(intent => {
+      if (
+        intent.status !== 'processing' ||
+        intent.settlesAt === undefined ||
+        now < intent.settlesAt
+      ) {
+        return;
+      }
+      const settledAt = intent.settlesAt;
+      delete intent.settlesAt;
+      const order = this.findOrder(intent.orderId);
+      if (order.status !== 'pending') {
+        // The order was cancelled while the payment was in flight
+        this.failIntent(intent, 'The order was cancelled before payment');
+        return;
+      }
+      intent.status = 'succeeded';
+      this.transitionOrder(order, 'processing', settledAt);
+    });
+  }
+
+  // A failed payment cancels its order, which puts the stock back
+  private failIntent(
+    intent: PaymentIntent,
+    errorMessage: string,
+    declineCode?: PaymentDeclineCode,
+  ): void {
+    intent.status = 'failed';
+    intent.errorMessage = errorMessage;
+    intent.declineCode = declineCode;
+    const order = this.findOrder(intent.orderId);
+    if (order.status === 'pending') {
+      this.transitionOrder(order, 'cancelled', Date.now());
+      order.cancellationReason = errorMessage;
+    }
+  }
+
+  private toPaymentResult({
+    id,
+    status,
+    challenge,
+    errorMessage,
+    declineCode,
+  }: PaymentIntent): PaymentResult {
+    return {status, paymentIntentId: id, challenge, errorMessage, declineCode};
+  }
+}
+
+export const mockBackend = new MockBackend();
@@ -2,6 +2,8 @@ import {Product, Category} from '../models/Product';
 import {User} from '../models/User';
 import {Address} from '../models/Address';
 import {ShippingMethod} from '../models/Order';
+import {PaymentMethod} from '../models/Payment';
+import {Promotion} from '../models/Promotion';
 
 export const mockProducts: Product[] = [
   {
@@ -380,6 +382,22 @@ export const mockAddresses: Address[] = [
   },
 ];
 
+export const mockPaymentMethods: PaymentMethod[] = [
+  {
+    id: 'pm1',
+    type: 'creditCard',
+    cardInfo: {
+      last4: '4242',
+      brand: 'Visa',
+      expiryMonth: 12,
+      expiryYear: 2030,
+      holderName: 'John Doe',
+    },
+    isDefault: true,
+    token: 'tok_visa_4242',
+  },
+];
+
 export const mockShippingMethods: ShippingMethod[] = [
   {
     id: 'ship1',
@@ -418,3 +436,55 @@ export const mockShippingMethods: ShippingMethod[] = [
     trackingIncluded: false,
   },
 ];
+
+export const mockPromotions: Promotion[] = [
+  {
+    code: 'WELCOME10',
+    description: '10% off your order',
+    type: 'percentage',
+    value: 10,
+    stackable: false,
+  },
+  {
+    code: 'SAVE15',
+    description: 'Money off larger orders',
+    type: 'fixed_amount',
+    value: 15,
+    minSubtotal: 100,
+    stackable: true,
+  },
+  {
+    code: 'FREESHIP',
+    description: 'Free shipping on larger orders',
+    type: 'free_shipping',
+    value: 0,
+    minSubtotal: 50,
+    stackable: true,
+  },
+  {
+    code: 'TECH20',
+    description: '20% off electronics',
+    type: 'percentage',
+    value: 20,
+    category: 'Electronics',
+    stackable: true,
+  },
+  {
+    code: 'SPORTSBOGO',
+    description: 'Buy one, get one free on sports gear',
+    type: 'buy_x_get_y',
+    value: 0,
+    category: 'Sports',
+    buyQuantity: 1,
+    getQuantity: 1,
+    stackable: true,
+  },
+  {
+    code: 'SPRING25',
+    description: '25% off the spring collection',
+    type: 'percentage',
+    value: 25,
+    stackable: false,
+    expiresAt: '2024-06-01T00:00:00.000Z',
+  },
+];
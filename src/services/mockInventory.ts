@@ -0,0 +1,189 @@
+import {Product} from '../models/Product';
+import {
+  InventoryReservation,
+  ReservationLine,
+  StockLevel,
+  StockRequest,
+  skuKey,
+} from '../models/Inventory';
+import {ApiError} from './transport';
+
+// How long reserved units are held for a checkout that never places an order
+const RESERVATION_TTL_MS = 15 * 60 * 1000;
+
+interface HeldReservation extends InventoryReservation {
+  lines: {key: string; quantity: number}[];
+}
+
+/**
+ * Stock ledger for the mock backend. Units are tracked per SKU (a product
+ * plus one value for each of its variant types), seeded lazily from the
+ * catalog. Reserved units are unavailable to everyone else until the
+ * reservation is committed by an order, released, or expires.
+ */
+export class MockInventory {
+  private onHand: Map<string, number> = new Map();
+  private reservations: Map<string, HeldReservation> = new Map();
+  private reservationCounter = 0;
+  private findProduct: (productId: string) => Product;
+
+  constructor(findProduct: (productId: string) => Product) {
+    this.findProduct = findProduct;
+  }
+
+  /**
+   * Starting stock for a SKU: the product's stock split evenly across its
+   * variant combinations, and none for combinations with a sold-out variant.
+   */
+  private seedStock(
+    product: Product,
+    variants: Record<string, string>,
+  ): number {
+    if (!product.inStock) {
+      return 0;
+    }
+    const selected = product.variants.filter(v => variants[v.type] === v.value);
+    if (selected.some(v => !v.inStock)) {
+      return 0;
+    }
+    const combinations = [...new Set(product.variants.map(v => v.type))]
+      .map(type => product.variants.filter(v => v.type === type).length)
+      .reduce((total, count) => total * count, 1);
+    return Math.max(1, Math.floor(product.stockCount / combinations));
+  }
+
+  private getOnHand(
+    productId: string,
+    variants: Record<string, string>,
+  ): number {
+    const key = skuKey(productId, variants);
+    let units = this.onHand.get(key);
+    if (units === undefined) {
+      units = this.seedStock(this.findProduct(productId), variants);
+      this.onHand.set(key, units);
+    }
+    return units;
+  }
+
+  private expireReservations(now = Date.now()): void {
+    this.reservations.forEach((reservation, id) => {
+      if (new Date(reservation.expiresAt).getTime() <= now) {
+        this.reservations.delete(id);
+      }
+    });
+  }
+
+  private getReserved(key: string, excludeReservationId?: string): number {
+    let reserved = 0;
+    this.reservations.forEach(reservation => {
+      if (reservation.id === excludeReservationId) {
+        return;
+      }
+      reservation.lines
+        .filter(line => line.key === key)
+        .forEach(line => {
+          reserved += line.quantity;
+        });
+    });
+    return reserved;
+  }
+
+  private getAvailable(
+    request: StockRequest,
+    excludeReservationId?: string,
+  ): number {
+    const onHand = this.getOnHand(request.productId, request.selectedVariants);
+    const key = skuKey(request.productId, request.selectedVariants);
+    return Math.max(0, onHand - this.getReserved(key, excludeReservationId));
+  }
+
+  /**
+   * Throws a 409 naming the first line that asks for more units than are
+   * available.
+   */
+  private assertAvailable(
+    requests: ReservationLine[],
+    excludeReservationId?: string,
+  ): void {
+    requests.forEach(request => {
+      const available = this.getAvailable(request, excludeReservationId);
+      if (request.quantity > available) {
+        const product = this.findProduct(request.productId);
+        throw new ApiError(
+          available === 0
+            ? `${product.name} is sold out`
+            : `Only ${available} of ${product.name} left in stock`,
+          409,
+        );
+      }
+    });
+  }
+
+  /**
+   * Units of a SKU that can be bought. Units held by the excluded
+   * reservation count as available to its holder.
+   */
+  getStockLevel(
+    request: StockRequest,
+    excludeReservationId?: string,
+  ): StockLevel {
+    this.expireReservations();
+    return {
+      ...request,
+      available: this.getAvailable(request, excludeReservationId),
+    };
+  }
+
+  reserve(requests: ReservationLine[]): InventoryReservation {
+    this.expireReservations();
+    this.assertAvailable(requests);
+
+    const reservation: HeldReservation = {
+      id: `res-${Date.now()}-${++this.reservationCounter}`,
+      expiresAt: new Date(Date.now() + RESERVATION_TTL_MS).toISOString(),
+      lines: requests.map(request => ({
+        key: skuKey(request.productId, request.selectedVariants),
+        quantity: request.quantity,
+      })),
+    };
+    this.reservations.set(reservation.id, reservation);
+    return {id: reservation.id, expiresAt: reservation.expiresAt};
+  }
+
+  release(reservationId: string): void {
+    this.reservations.delete(reservationId);
+  }
+
+  /**
+   * Takes the units for an order off the shelf. Units held by the given
+   * reservation count as available; if it has expired, the order only
+   * succeeds when enough unreserved stock is left.
+   */
+  commit(requests: ReservationLine[], reservationId?: string): void {
+    this.expireReservations();
+    this.assertAvailable(requests, reservationId);
+
+    requests.forEach(request => {
+      const key = skuKey(request.productId, request.selectedVariants);
+      this.onHand.set(
+        key,
+        this.getOnHand(request.productId, request.selectedVariants) -
+          request.quantity,
+      );
+    });
+    if (reservationId) {
+      this.reservations.delete(reservationId);
+    }
+  }
+
+  restock(requests: ReservationLine[]): void {
+    requests.forEach(request => {
+      const key = skuKey(request.productId, request.selectedVariants);
+      this.onHand.set(
+        key,
+        this.getOnHand(request.productId, request.selectedVariants) +
+          request.quantity,
+      );
+    });
+  }
+}
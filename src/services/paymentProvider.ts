@@ -0,0 +1,195 @@
+import {Platform} from 'react-native';
+import {
+  DigitalWalletInfo,
+  PAYMENT_TYPE_LABELS,
+  PaymentMethodInput,
+  WalletType,
+} from '../models/Payment';
+import {
+  DEBIT_TEST_CARDS,
+  TEST_CARD_BEHAVIORS,
+  WALLET_CONFIG,
+} from '../config/payment.config';
+import {
+  CardDetails,
+  detectCardBrand,
+  parseExpiry,
+  sanitizeCardNumber,
+  validateCard,
+} from './cards';
+import {embraceService} from './embrace';
+import {randomService} from './random';
+import {delay} from '../utils';
+
+export class PaymentProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentProviderError';
+  }
+}
+
+// The shopper dismissed the wallet's payment sheet; not worth an alert
+export class PaymentCancelledError extends PaymentProviderError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentCancelledError';
+  }
+}
+
+export interface WalletAuthorizationRequest {
+  amount: number;
+  currency: string;
+  // Stands in for the account the shopper's wallet is signed in with
+  payer: DigitalWalletInfo;
+}
+
+/**
+ * Client side of the payment provider: card details and wallet approvals
+ * go in, and only a token plus display metadata come back.
+ */
+export interface PaymentProvider {
+  tokenizeCard(card: CardDetails): Promise<PaymentMethodInput>;
+  getAvailableWallets(): WalletType[];
+  authorizeWallet(
+    type: WalletType,
+    request: WalletAuthorizationRequest,
+  ): Promise<PaymentMethodInput>;
+}
+
+type WalletOutcome = 'authorized' | 'cancelled' | 'failed';
+
+/**
+ * Stand-in for one wallet's payment sheet. Each authorization is approved,
+ * dismissed by the shopper or declined at the rates in WALLET_CONFIG.
+ */
+class MockWalletProvider {
+  constructor(readonly type: WalletType) {}
+
+  isAvailable(): boolean {
+    return WALLET_CONFIG[this.type].platforms.includes(Platform.OS);
+  }
+
+  async authorize({
+    amount,
+    currency,
+    payer,
+  }: WalletAuthorizationRequest): Promise<PaymentMethodInput> {
+    const config = WALLET_CONFIG[this.type];
+    const name = PAYMENT_TYPE_LABELS[this.type];
+    const startTime = Date.now();
+    await delay(config.latencyMs);
+
+    const roll = randomService.next('wallet_authorization');
+    let outcome: WalletOutcome = 'authorized';
+    if (roll < config.cancelRate) {
+      outcome = 'cancelled';
+    } else if (roll < config.cancelRate + config.failureRate) {
+      outcome = 'failed';
+    }
+
+    embraceService.recordCompletedSpan(
+      'wallet_authorization',
+      startTime,
+      Date.now(),
+      {
+        'payment.method': this.type,
+        'payment.amount': amount.toString(),
+        'payment.currency': currency,
+        'wallet.outcome': outcome,
+      },
+      outcome !== 'failed',
+    );
+
+    if (outcome === 'cancelled') {
+      embraceService.addBreadcrumb(`WALLET_CANCELLED_${this.type}`);
+      throw new PaymentCancelledError(`${name} was cancelled`);
+    }
+    if (outcome === 'failed') {
+      throw new PaymentProviderError(
+        `${name} could not authorize this payment`,
+      );
+    }
+
+    const tokenId = randomService.id(12, 'payment_tokens');
+    return {
+      type: this.type,
+      token: `tok_${this.type.toLowerCase()}_${tokenId}`,
+      digitalWalletInfo: {...payer},
+    };
+  }
+}
+
+/**
+ * Stand-in for the payment provider's client SDK. Card details go to the
+ * provider and only a token plus display metadata come back, so the app
+ * never keeps a card number or CVC.
+ */
+class MockPaymentProvider implements PaymentProvider {
+  private latencyMs = 400;
+  private wallets: Record<WalletType, MockWalletProvider> = {
+    applePay: new MockWalletProvider('applePay'),
+    googlePay: new MockWalletProvider('googlePay'),
+    paypal: new MockWalletProvider('paypal'),
+  };
+
+  async tokenizeCard(card: CardDetails): Promise<PaymentMethodInput> {
+    const startTime = Date.now();
+    await delay(this.latencyMs);
+
+    const [message] = Object.values(validateCard(card));
+    const brand = detectCardBrand(card.number);
+    if (message || !brand) {
+      embraceService.recordCompletedSpan(
+        'card_tokenization',
+        startTime,
+        Date.now(),
+        {'card.brand': brand?.brand ?? 'unknown'},
+        false,
+      );
+      throw new PaymentProviderError(message || 'This card is not accepted');
+    }
+
+    const digits = sanitizeCardNumber(card.number);
+    const expiry = parseExpiry(card.expiry)!;
+    const tokenId = randomService.id(12, 'payment_tokens');
+    const token = ['tok', brand.brand, TEST_CARD_BEHAVIORS[digits], tokenId]
+      .filter(Boolean)
+      .join('_');
+    // Real providers report the funding type from the card's BIN
+    const type = DEBIT_TEST_CARDS.includes(digits) ? 'debitCard' : 'creditCard';
+
+    embraceService.recordCompletedSpan(
+      'card_tokenization',
+      startTime,
+      Date.now(),
+      {'card.brand': brand.brand, 'payment.method': type},
+    );
+
+    return {
+      type,
+      token,
+      cardInfo: {
+        last4: digits.slice(-4),
+        brand: brand.name,
+        expiryMonth: expiry.month,
+        expiryYear: expiry.year,
+        holderName: card.holderName.trim(),
+      },
+    };
+  }
+
+  getAvailableWallets(): WalletType[] {
+    return Object.values(this.wallets)
+      .filter(wallet => wallet.isAvailable())
+      .map(wallet => wallet.type);
+  }
+
+  authorizeWallet(
+    type: WalletType,
+    request: WalletAuthorizationRequest,
+  ): Promise<PaymentMethodInput> {
+    return this.wallets[type].authorize(request);
+  }
+}
+
+export const paymentProvider: PaymentProvider = new MockPaymentProvider();
@@ -0,0 +1,82 @@
+import {Product, ProductVariant} from '../models/Product';
+import {roundToCents} from '../utils';
+
+export type VariantSelectionFailure =
+  | 'product_out_of_stock'
+  | 'unknown_variant'
+  | 'variant_out_of_stock';
+
+/**
+ * Error raised when a product cannot be bought with the selected variants.
+ */
+export class VariantSelectionError extends Error {
+  reason: VariantSelectionFailure;
+
+  constructor(reason: VariantSelectionFailure, message: string) {
+    super(message);
+    this.name = 'VariantSelectionError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Resolves a `{type: value}` selection to the product's variants. Throws
+ * when a selected value is not one of the product's variants.
+ */
+export const resolveSelectedVariants = (
+  product: Product,
+  selectedVariants: Record<string, string>,
+): ProductVariant[] =>
+  Object.entries(selectedVariants).map(([type, value]) => {
+    const variant = product.variants.find(
+      v => v.type === type && v.value === value,
+    );
+    if (!variant) {
+      throw new VariantSelectionError(
+        'unknown_variant',
+        `${product.name} has no ${type} "${value}"`,
+      );
+    }
+    return variant;
+  });
+
+/**
+ * Unit price of the product with the selected variants: the base price
+ * plus every selected variant's price modifier.
+ */
+export const calculateUnitPrice = (
+  product: Product,
+  selectedVariants: Record<string, string>,
+): number =>
+  roundToCents(
+    resolveSelectedVariants(product, selectedVariants).reduce(
+      (price, variant) => price + variant.priceModifier,
+      product.price,
+    ),
+  );
+
+/**
+ * Throws a VariantSelectionError unless the product can be bought with the
+ * selected variants.
+ */
+export const assertPurchasable = (
+  product: Product,
+  selectedVariants: Record<string, string>,
+): void => {
+  if (!product.inStock) {
+    throw new VariantSelectionError(
+      'product_out_of_stock',
+      `${product.name} is out of stock`,
+    );
+  }
+
+  const unavailable = resolveSelectedVariants(product, selectedVariants).find(
+    variant => !variant.inStock,
+  );
+  if (unavailable) {
+    throw new VariantSelectionError(
+      'variant_out_of_stock',
+      `${product.name} is out of stock in ${unavailable.name.toLowerCase()} ${unavailable.value}`,
+    );
+  }
+};
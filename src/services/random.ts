@@ -0,0 +1,77 @@
+/* eslint-disable no-bitwise */
+import {RANDOM_SEED} from '../config/random.config';
+
+/**
+ * Returns a deterministic pseudo-random generator (mulberry32) producing
+ * floats in [0, 1). The same seed always yields the same sequence.
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const generateSeed = (): number => Date.now() % 2147483647;
+
+// FNV-1a hash of the stream name, mixed with the session seed
+const deriveStreamSeed = (seed: number, stream: string): number => {
+  let hash = 0x811c9dc5 ^ seed;
+  for (let i = 0; i < stream.length; i++) {
+    hash ^= stream.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Central source of randomness for all simulated behavior. Each consumer
+ * draws from its own named stream derived from the session seed, so one
+ * subsystem drawing more or fewer numbers never shifts another's sequence.
+ */
+class RandomService {
+  private seed = RANDOM_SEED ?? generateSeed();
+  private streams: Map<string, () => number> = new Map();
+
+  setSeed(seed: number): void {
+    this.seed = seed;
+    this.streams.clear();
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  next(stream = 'default'): number {
+    let generator = this.streams.get(stream);
+    if (!generator) {
+      generator = createSeededRandom(deriveStreamSeed(this.seed, stream));
+      this.streams.set(stream, generator);
+    }
+    return generator();
+  }
+
+  chance(probability: number, stream?: string): boolean {
+    return this.next(stream) < probability;
+  }
+
+  // Integer in [min, max)
+  int(min: number, max: number, stream?: string): number {
+    return min + Math.floor(this.next(stream) * (max - min));
+  }
+
+  // Lowercase base-36 string, a seeded replacement for Math.random().toString(36)
+  id(length = 9, stream?: string): string {
+    let result = '';
+    for (let i = 0; i < length; i++) {
+      result += this.int(0, 36, stream).toString(36);
+    }
+    return result;
+  }
+}
+
+export const randomService = new RandomService();
@@ -0,0 +1,174 @@
+import {HttpMethod} from './embrace';
+import {ApiError, matchesEndpoint} from './transport';
+import {randomService} from './random';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Fraction of each backoff delay that is randomized (0 = none, 1 = full jitter)
+  jitter: number;
+  // Overall budget across all attempts, measured from the first one
+  deadlineMs: number;
+  retryableStatusCodes: number[];
+  // Whether failures without a status code (timeouts, dropped connections,
+  // unparseable payloads) are retried
+  retryNetworkErrors: boolean;
+}
+
+interface RetryRule {
+  endpoint: string;
+  method?: HttpMethod;
+  policy: RetryPolicy;
+}
+
+export const NO_RETRY: RetryPolicy = {
+  maxAttempts: 1,
+  baseDelayMs: 0,
+  maxDelayMs: 0,
+  jitter: 0,
+  deadlineMs: 30000,
+  retryableStatusCodes: [],
+  retryNetworkErrors: false,
+};
+
+const TRANSIENT_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+const CATALOG_READ_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 300,
+  maxDelayMs: 3000,
+  jitter: 0.5,
+  deadlineMs: 20000,
+  retryableStatusCodes: TRANSIENT_STATUS_CODES,
+  retryNetworkErrors: true,
+};
+
+const ACCOUNT_READ_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 4000,
+  jitter: 0.5,
+  deadlineMs: 15000,
+  retryableStatusCodes: TRANSIENT_STATUS_CODES,
+  retryNetworkErrors: true,
+};
+
+// Writes carrying an idempotency key are deduplicated by the backend, so
+// repeating them after a lost response cannot duplicate an order or charge
+const IDEMPOTENT_WRITE_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 4000,
+  jitter: 0.5,
+  deadlineMs: 30000,
+  retryableStatusCodes: [408, 429, 502, 503, 504],
+  retryNetworkErrors: true,
+};
+
+// Evaluated in order; the first matching rule wins. Writes without an
+// idempotency key are never retried because repeating them could duplicate
+// orders or charges.
+const RETRY_RULES: RetryRule[] = [
+  {endpoint: '/products*', method: 'GET', policy: CATALOG_READ_POLICY},
+  {endpoint: '/categories', method: 'GET', policy: CATALOG_READ_POLICY},
+  {endpoint: '/shipping/methods', method: 'GET', policy: CATALOG_READ_POLICY},
+  // Quoting shipping only reads rate cards
+  {endpoint: '/shipping/quotes', method: 'POST', policy: CATALOG_READ_POLICY},
+  {endpoint: '/inventory/*', method: 'GET', policy: CATALOG_READ_POLICY},
+  {endpoint: '/user/*', method: 'GET', policy: ACCOUNT_READ_POLICY},
+  {endpoint: '/orders*', method: 'GET', policy: ACCOUNT_READ_POLICY},
+  {endpoint: '/payments/*', method: 'GET', policy: ACCOUNT_READ_POLICY},
+  {endpoint: '/cart', method: 'GET', policy: ACCOUNT_READ_POLICY},
+  // Validating a promo code changes nothing on the server
+  {
+    endpoint: '/promotions/validate',
+    method: 'POST',
+    policy: ACCOUNT_READ_POLICY,
+  },
+  // Saving a cart replaces it wholesale, so repeating the save is harmless
+  {endpoint: '/cart', method: 'PUT', policy: IDEMPOTENT_WRITE_POLICY},
+  // Setting an order to a given status, cancelling it or refunding it are
+  // naturally idempotent: repeating them returns the order unchanged
+  {endpoint: '/orders/*', method: 'PATCH', policy: IDEMPOTENT_WRITE_POLICY},
+  {endpoint: '/orders/*', method: 'POST', policy: IDEMPOTENT_WRITE_POLICY},
+  // Saving an address replaces it wholesale, making an address the default
+  // twice leaves it the default, and deleting a deleted address is a no-op.
+  // Adding an address is not retried.
+  {
+    endpoint: '/user/addresses/*',
+    method: 'PUT',
+    policy: IDEMPOTENT_WRITE_POLICY,
+  },
+  {
+    endpoint: '/user/addresses/*',
+    method: 'DELETE',
+    policy: IDEMPOTENT_WRITE_POLICY,
+  },
+  {
+    endpoint: '/user/addresses/*',
+    method: 'POST',
+    policy: IDEMPOTENT_WRITE_POLICY,
+  },
+  // Saving a token that is already vaulted returns the vault unchanged, and
+  // removing a method or making it the default can be repeated safely
+  {
+    endpoint: '/user/payment-methods*',
+    method: 'POST',
+    policy: IDEMPOTENT_WRITE_POLICY,
+  },
+  {
+    endpoint: '/user/payment-methods/*',
+    method: 'DELETE',
+    policy: IDEMPOTENT_WRITE_POLICY,
+  },
+  // Releasing a reservation that is already gone is a no-op
+  {
+    endpoint: '/inventory/reservations/*',
+    method: 'DELETE',
+    policy: IDEMPOTENT_WRITE_POLICY,
+  },
+];
+
+export const resolveRetryPolicy = (
+  method: HttpMethod,
+  endpoint: string,
+  idempotencyKey?: string,
+): RetryPolicy => {
+  if (idempotencyKey) {
+    return IDEMPOTENT_WRITE_POLICY;
+  }
+  const rule = RETRY_RULES.find(
+    r =>
+      (!r.method || r.method === method) &&
+      matchesEndpoint(r.endpoint, endpoint),
+  );
+  return rule ? rule.policy : NO_RETRY;
+};
+
+export const isRetryableError = (
+  error: unknown,
+  policy: RetryPolicy,
+): boolean => {
+  if (error instanceof ApiError) {
+    return policy.retryableStatusCodes.includes(error.statusCode);
+  }
+  return policy.retryNetworkErrors;
+};
+
+/**
+ * Exponential backoff for the delay after the given (1-based) attempt, with
+ * jitter drawn from the seeded 'retry_jitter' stream.
+ */
+export const getBackoffDelay = (
+  attempt: number,
+  policy: RetryPolicy,
+): number => {
+  const exponential = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1),
+  );
+  const jitter =
+    exponential * policy.jitter * randomService.next('retry_jitter');
+  return Math.round(exponential * (1 - policy.jitter) + jitter);
+};
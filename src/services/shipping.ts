@@ -0,0 +1,137 @@
+import {Product} from '../models/Product';
+import {ShippingMethod} from '../models/Order';
+import {Parcel, ShippingDestination} from '../models/Shipping';
+import {
+  SHIPPING_CONFIG,
+  SHIPPING_RATE_CARDS,
+  ShippingZone,
+} from '../config/shipping.config';
+import {roundToCents, sameText} from '../utils';
+
+/**
+ * Packs every unit into one parcel. Products without a listed weight or
+ * size count as the configured default item.
+ */
+export const buildParcel = (
+  lines: {product: Product; quantity: number}[],
+): Parcel => {
+  let weightKg = 0;
+  let volumeIn3 = 0;
+  let longestSideIn = 0;
+
+  lines.forEach(({product, quantity}) => {
+    const dimensions =
+      product.dimensions || SHIPPING_CONFIG.defaultItemDimensions;
+    weightKg +=
+      (product.weight ?? SHIPPING_CONFIG.defaultItemWeightKg) * quantity;
+    volumeIn3 +=
+      dimensions.width * dimensions.height * dimensions.depth * quantity;
+    longestSideIn = Math.max(
+      longestSideIn,
+      dimensions.width,
+      dimensions.height,
+      dimensions.depth,
+    );
+  });
+
+  return {
+    weightKg,
+    volumeIn3,
+    longestSideIn,
+    billableWeightKg: Math.max(
+      weightKg,
+      volumeIn3 / SHIPPING_CONFIG.dimensionalDivisor,
+    ),
+  };
+};
+
+// Null when the destination is outside every zone we ship to
+export const resolveShippingZone = (
+  destination: ShippingDestination,
+): ShippingZone | null => {
+  if (sameText(destination.country, SHIPPING_CONFIG.originCountry)) {
+    return SHIPPING_CONFIG.remoteStates.some(state =>
+      sameText(state, destination.state),
+    )
+      ? 'remote'
+      : 'domestic';
+  }
+  return SHIPPING_CONFIG.internationalCountries.some(country =>
+    sameText(country, destination.country),
+  )
+    ? 'international'
+    : null;
+};
+
+// Skips weekends; carriers do not deliver on them
+export const addBusinessDays = (from: number, days: number): Date => {
+  const date = new Date(from);
+  let remaining = days;
+  while (remaining > 0) {
+    date.setDate(date.getDate() + 1);
+    if (date.getDay() !== 0 && date.getDay() !== 6) {
+      remaining -= 1;
+    }
+  }
+  return date;
+};
+
+const describeTransit = (days: number): string =>
+  days === 1
+    ? 'Delivery next business day'
+    : `Delivery in ${days} business days`;
+
+/**
+ * Prices each shipping method for the parcel and destination. Methods that
+ * cannot carry the parcel there come back with `isAvailable: false` and
+ * the reason; the others carry their cost, transit time and estimated
+ * delivery date.
+ */
+export const quoteShippingMethods = (
+  methods: ShippingMethod[],
+  parcel: Parcel,
+  destination: ShippingDestination,
+  now = Date.now(),
+): ShippingMethod[] => {
+  const zone = resolveShippingZone(destination);
+
+  return methods.map(method => {
+    const unavailable = (reason: string): ShippingMethod => ({
+      ...method,
+      isAvailable: false,
+      unavailableReason: reason,
+      estimatedDelivery: undefined,
+    });
+
+    const card = SHIPPING_RATE_CARDS[method.id];
+    if (!zone) {
+      return unavailable(`We do not ship to ${destination.country}`);
+    }
+    const rate = card?.rates[zone];
+    if (!card || !rate) {
+      return unavailable(
+        zone === 'international'
+          ? `Not available to ${destination.country}`
+          : `Not available to ${destination.state}`,
+      );
+    }
+    if (parcel.billableWeightKg > card.maxWeightKg) {
+      return unavailable('Your order is too heavy for this method');
+    }
+    if (parcel.longestSideIn > card.maxLengthIn) {
+      return unavailable('An item in your order is too large for this method');
+    }
+
+    return {
+      ...method,
+      cost: roundToCents(
+        rate.base + rate.perKg * Math.ceil(parcel.billableWeightKg),
+      ),
+      estimatedDays: rate.transitDays,
+      description: describeTransit(rate.transitDays),
+      isAvailable: true,
+      unavailableReason: undefined,
+      estimatedDelivery: addBusinessDays(now, rate.transitDays).toISOString(),
+    };
+  });
+};
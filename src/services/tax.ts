@@ -0,0 +1,89 @@
+import {DiscountLine, DiscountableLine} from '../models/Promotion';
+import {LineTax, TaxAddress, TaxBreakdown} from '../models/Tax';
+import {TAX_JURISDICTIONS, TaxJurisdiction} from '../config/tax.config';
+import {sumDiscounts, sumLineDiscounts} from './discounts';
+import {roundToCents, sameText} from '../utils';
+
+/**
+ * Jurisdictions the address falls in, from the country down to the most
+ * specific local one.
+ */
+export const resolveJurisdictions = (address: TaxAddress): TaxJurisdiction[] =>
+  TAX_JURISDICTIONS.filter(jurisdiction => {
+    if (!sameText(jurisdiction.country, address.country)) {
+      return false;
+    }
+    if (jurisdiction.state && !sameText(jurisdiction.state, address.state)) {
+      return false;
+    }
+    if (
+      jurisdiction.zipPrefixes &&
+      !jurisdiction.zipPrefixes.some(prefix =>
+        address.zipCode.trim().startsWith(prefix),
+      )
+    ) {
+      return false;
+    }
+    return true;
+  }).sort(
+    (a, b) =>
+      Number(!!a.state) +
+      Number(!!a.zipPrefixes) -
+      (Number(!!b.state) + Number(!!b.zipPrefixes)),
+  );
+
+/**
+ * Tax on an order shipped to the given address. Each line is taxed on its
+ * subtotal less the item discounts that applied to it at the combined rate of
+ * every matching jurisdiction, or not at all if its category is exempt.
+ * Shipping, less any free shipping discount, is taxed only where the most
+ * specific jurisdiction that has a rule says so.
+ */
+export const calculateTax = (
+  address: TaxAddress,
+  lines: DiscountableLine[],
+  shippingCost: number,
+  discounts: DiscountLine[] = [],
+): TaxBreakdown => {
+  const jurisdictions = resolveJurisdictions(address);
+  const rate = jurisdictions.reduce((sum, j) => sum + j.rate, 0);
+  const exemptCategories = jurisdictions.flatMap(j => j.exemptCategories || []);
+  const taxesShipping = [...jurisdictions]
+    .reverse()
+    .find(j => j.taxesShipping !== undefined)?.taxesShipping;
+
+  const lineTaxes: LineTax[] = lines.map(line => {
+    const exempt = exemptCategories.some(category =>
+      sameText(category, line.category),
+    );
+    const taxRate = exempt ? 0 : rate;
+    const taxableAmount = roundToCents(
+      Math.max(
+        0,
+        line.unitPrice * line.quantity - sumLineDiscounts(discounts, line.id),
+      ),
+    );
+    return {
+      itemId: line.id,
+      taxableAmount,
+      taxRate,
+      tax: roundToCents(taxableAmount * taxRate),
+    };
+  });
+
+  const shippingDiscount = sumDiscounts(
+    discounts.filter(line => line.type === 'free_shipping'),
+  );
+  const shippingTax = taxesShipping
+    ? roundToCents(Math.max(0, shippingCost - shippingDiscount) * rate)
+    : 0;
+
+  return {
+    jurisdictions: jurisdictions.map(j => j.name),
+    lines: lineTaxes,
+    shippingTax,
+    total: roundToCents(
+      lineTaxes.reduce((sum, line) => sum + line.tax, 0) + shippingTax,
+    ),
+  };
+};
@@ -0,0 +1,179 @@
+import {HttpMethod} from './embrace';
+
+export type TransportMode = 'mock' | 'http';
+
+export interface TransportRequest {
+  url: string;
+  method: HttpMethod;
+  body?: unknown;
+  headers?: Record<string, string>;
+  // Time (epoch ms) after which the caller no longer waits for a response
+  deadline?: number;
+  // Aborted when the caller gives up on the request
+  signal?: AbortSignal;
+}
+
+export interface TransportResponse<T> {
+  statusCode: number;
+  data: T;
+  bytesReceived: number;
+}
+
+// Resolves a request in-process. Only used by the mock transport; the
+// HTTP transport ignores it and asks the server instead.
+export type MockHandler<T> = () => Promise<T>;
+
+export interface Transport {
+  readonly mode: TransportMode;
+  send<T>(
+    request: TransportRequest,
+    mockHandler: MockHandler<T>,
+  ): Promise<TransportResponse<T>>;
+}
+
+/**
+ * Error raised when a request reached the server but came back with a
+ * non-2xx status code. `code` is the machine-readable reason the server
+ * gave, if any (e.g. a payment decline code).
+ */
+export class ApiError extends Error {
+  statusCode: number;
+  code?: string;
+
+  constructor(message: string, statusCode: number, code?: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+/**
+ * Matches an endpoint against an exact path or a prefix pattern ending in
+ * '*'. Query strings are ignored.
+ */
+export const matchesEndpoint = (pattern: string, endpoint: string): boolean => {
+  const path = endpoint.split('?')[0];
+  if (pattern.endsWith('*')) {
+    return path.startsWith(pattern.slice(0, -1));
+  }
+  return path === pattern;
+};
+
+const byteLength = (value: unknown): number =>
+  value === undefined ? 0 : JSON.stringify(value).length;
+
+export class MockTransport implements Transport {
+  readonly mode: TransportMode = 'mock';
+
+  async send<T>(
+    request: TransportRequest,
+    mockHandler: MockHandler<T>,
+  ): Promise<TransportResponse<T>> {
+    // A request the caller gave up on must not reach the backend
+    if (request.signal?.aborted) {
+      throw new Error('Request was cancelled');
+    }
+    // Round-trip through JSON like a real response would, so callers never
+    // share (and silently mutate) the mock backend's own objects
+    const result = await mockHandler();
+    const data: T =
+      result === undefined ? result : JSON.parse(JSON.stringify(result));
+    return {
+      statusCode: 200,
+      data,
+      bytesReceived: byteLength(data),
+    };
+  }
+}
+
+/**
+ * Builds the error for a non-2xx response. The body is only used when it is
+ * JSON; proxies and gateways often answer with an HTML error page instead.
+ */
+const toApiError = (statusCode: number, text: string): ApiError => {
+  let body: {error?: unknown; code?: unknown} | null = null;
+  try {
+    body = text.length > 0 ? JSON.parse(text) : null;
+  } catch {
+    body = null;
+  }
+  return new ApiError(
+    body && typeof body.error === 'string'
+      ? body.error
+      : `Request failed with status ${statusCode}`,
+    statusCode,
+    body && typeof body.code === 'string' ? body.code : undefined,
+  );
+};
+
+export class HttpTransport implements Transport {
+  readonly mode: TransportMode = 'http';
+  private timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    this.timeoutMs = timeoutMs;
+  }
+
+  async send<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+    const timeoutMs =
+      request.deadline === undefined
+        ? this.timeoutMs
+        : Math.max(0, Math.min(this.timeoutMs, request.deadline - Date.now()));
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const cancel = () => controller.abort();
+    if (request.signal?.aborted) {
+      cancel();
+    }
+    request.signal?.addEventListener('abort', cancel);
+
+    try {
+      const response = await fetch(request.url, {
+        method: request.method,
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+          ...request.headers,
+        },
+        body:
+          request.body === undefined ? undefined : JSON.stringify(request.body),
+        signal: controller.signal,
+      });
+
+      const text = await response.text();
+      if (!response.ok) {
+        throw toApiError(response.status, text);
+      }
+
+      const data = text.length > 0 ? JSON.parse(text) : null;
+      return {
+        statusCode: response.status,
+        data: data as T,
+        bytesReceived: text.length,
+      };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(
+          timedOut
+            ? `Request timed out after ${timeoutMs}ms`
+            : 'Request was cancelled',
+        );
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+      request.signal?.removeEventListener('abort', cancel);
+    }
+  }
+}
+
+export const createTransport = (
+  mode: TransportMode,
+  timeoutMs: number,
+): Transport =>
+  mode === 'http' ? new HttpTransport(timeoutMs) : new MockTransport();
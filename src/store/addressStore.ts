@@ -0,0 +1,97 @@
+import {create} from 'zustand';
+import {persist, createJSONStorage} from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {Address, AddressInput} from '../models/Address';
+import {apiService} from '../services/api';
+import {embraceService} from '../services/embrace';
+
+interface AddressState {
+  addressesByUser: Record<string, Address[]>;
+  getAddresses: (userId: string) => Address[];
+  getAddress: (userId: string, addressId: string) => Address | undefined;
+  loadAddresses: (userId: string) => Promise<Address[]>;
+  addAddress: (userId: string, address: AddressInput) => Promise<Address>;
+  updateAddress: (
+    userId: string,
+    addressId: string,
+    address: AddressInput,
+  ) => Promise<Address[]>;
+  deleteAddress: (userId: string, addressId: string) => Promise<Address[]>;
+  setDefaultAddress: (userId: string, addressId: string) => Promise<Address[]>;
+}
+
+// Keeps the default address first, then the order they were added in
+const sortDefaultFirst = (addresses: Address[]): Address[] =>
+  [...addresses].sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+
+export const useAddressStore = create<AddressState>()(
+  persist(
+    (set, get) => {
+      // The backend returns the whole book after every change, so it
+      // replaces the local copy
+      const storeAddresses = (userId: string, addresses: Address[]) => {
+        const sorted = sortDefaultFirst(addresses);
+        set({addressesByUser: {...get().addressesByUser, [userId]: sorted}});
+        return sorted;
+      };
+
+      return {
+        addressesByUser: {},
+
+        getAddresses: (userId: string) => {
+          return get().addressesByUser[userId] || [];
+        },
+
+        getAddress: (userId: string, addressId: string) => {
+          return get()
+            .getAddresses(userId)
+            .find(address => address.id === addressId);
+        },
+
+        loadAddresses: async (userId: string) => {
+          const addresses = storeAddresses(
+            userId,
+            await apiService.fetchUserAddresses(userId),
+          );
+          embraceService.addBreadcrumb(`ADDRESSES_SYNCED_${addresses.length}`);
+          return addresses;
+        },
+
+        addAddress: async (userId: string, address: AddressInput) => {
+          const addresses = await apiService.addAddress(userId, address);
+          storeAddresses(userId, addresses);
+          return addresses[addresses.length - 1];
+        },
+
+        updateAddress: async (
+          userId: string,
+          addressId: string,
+          address: AddressInput,
+        ) => {
+          return storeAddresses(
+            userId,
+            await apiService.updateAddress(userId, addressId, address),
+          );
+        },
+
+        deleteAddress: async (userId: string, addressId: string) => {
+          return storeAddresses(
+            userId,
+            await apiService.deleteAddress(userId, addressId),
+          );
+        },
+
+        setDefaultAddress: async (userId: string, addressId: string) => {
+          return storeAddresses(
+            userId,
+            await apiService.setDefaultAddress(userId, addressId),
+          );
+        },
+      };
+    },
+    {
+      name: 'address-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    },
+  ),
+);
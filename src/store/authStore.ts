@@ -4,6 +4,8 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import {User, AuthenticationState, AuthenticationMethod} from '../models/User';
 import {apiService} from '../services/api';
 import {embraceService} from '../services/embrace';
+import {useCartStore} from './cartStore';
+import {BASE_CURRENCY} from '../config/currency.config';
 
 interface AuthState {
   user: User | null;
@@ -14,6 +16,7 @@ interface AuthState {
   register: (email: string, password: string, firstName: string, lastName: string) => Promise<void>;
   guestCheckout: () => Promise<void>;
   logout: () => void;
+  setPreferredCurrency: (currency: string) => void;
   isAuthenticated: () => boolean;
 }
 
@@ -42,6 +45,9 @@ export const useAuthStore = create<AuthState>()(
             authState: 'authenticated',
             authMethod: 'email',
           });
+
+          // Merge the cart built while signed out into the account's cart
+          await useCartStore.getState().attachUser(user.id);
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
           embraceService.trackLoginFailure('email', errorMessage);
@@ -69,6 +75,9 @@ export const useAuthStore = create<AuthState>()(
             authState: 'authenticated',
             authMethod: 'email',
           });
+
+          // Merge the cart built while signed out into the account's cart
+          await useCartStore.getState().attachUser(user.id);
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
           embraceService.logError('Registration failed', {error: errorMessage});
@@ -93,6 +102,8 @@ export const useAuthStore = create<AuthState>()(
             authState: 'authenticated',
             authMethod: 'guest',
           });
+
+          await useCartStore.getState().attachUser(user.id);
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
           embraceService.trackLoginFailure('guest', errorMessage);
@@ -103,6 +114,7 @@ export const useAuthStore = create<AuthState>()(
 
       logout: () => {
         embraceService.trackLogout();
+        useCartStore.getState().detachUser();
         set({
           user: null,
           token: null,
@@ -111,6 +123,21 @@ export const useAuthStore = create<AuthState>()(
         });
       },
 
+      setPreferredCurrency: (currency: string) => {
+        const {user} = get();
+        if (!user) {
+          return;
+        }
+        embraceService.addBreadcrumb(`CURRENCY_CHANGED_${currency}`);
+        embraceService.addSessionProperty('preferred_currency', currency);
+        set({
+          user: {
+            ...user,
+            preferences: {...user.preferences, preferredCurrency: currency},
+          },
+        });
+      },
+
       isAuthenticated: () => {
         const state = get();
         return state.authState === 'authenticated' && state.user !== null;
@@ -128,3 +155,9 @@ export const useAuthStore = create<AuthState>()(
     },
   ),
 );
+
+// Currency prices are shown in; signed-out shoppers see catalog prices
+export const usePreferredCurrency = (): string =>
+  useAuthStore(
+    state => state.user?.preferences.preferredCurrency || BASE_CURRENCY,
+  );
@@ -1,39 +1,141 @@
 import {create} from 'zustand';
 import {persist, createJSONStorage} from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import {CartItem, calculateCartTotals} from '../models/Cart';
+import {
+  Cart,
+  CartChange,
+  CartItem,
+  calculateCartTotals,
+  mergeCarts,
+} from '../models/Cart';
 import {Product} from '../models/Product';
+import {StockLevel, skuKey} from '../models/Inventory';
+import {apiService} from '../services/api';
 import {embraceService} from '../services/embrace';
+import {randomService} from '../services/random';
+import {
+  VariantSelectionError,
+  assertPurchasable,
+  calculateUnitPrice,
+} from '../services/pricing';
+import {QuantityCapError} from '../services/inventory';
+import {revalidateCartItem} from '../services/cartRevalidation';
+import {useCheckoutStore} from './checkoutStore';
+
+export type RevalidationTrigger = 'foreground' | 'checkout';
 
 interface CartState {
   items: CartItem[];
   totalItems: number;
   subtotal: number;
+  // Account the cart is synced to; null while browsing signed out
+  userId: string | null;
+  cartId: string | null;
+  updatedAt: string;
+  // Changes found by the last revalidation that the user has not seen yet
+  pendingChanges: CartChange[];
   addItem: (
     product: Product,
     quantity: number,
     selectedVariants?: Record<string, string>,
+    available?: number,
   ) => void;
   removeItem: (itemId: string) => void;
   updateQuantity: (itemId: string, quantity: number) => void;
+  setStockLevels: (levels: StockLevel[]) => void;
   clearCart: () => void;
   getItemByProductId: (productId: string) => CartItem | undefined;
+  attachUser: (userId: string) => Promise<void>;
+  detachUser: () => void;
+  syncCart: () => Promise<void>;
+  revalidate: (trigger: RevalidationTrigger) => Promise<CartChange[]>;
+  acknowledgeChanges: () => void;
 }
 
+// Local edits are pushed to the server once they settle
+const SYNC_DEBOUNCE_MS = 1000;
+let syncTimer: ReturnType<typeof setTimeout> | null = null;
+
+const scheduleSync = () => {
+  if (syncTimer) {
+    clearTimeout(syncTimer);
+  }
+  syncTimer = setTimeout(() => {
+    syncTimer = null;
+    useCartStore.getState().syncCart();
+  }, SYNC_DEBOUNCE_MS);
+};
+
+const findItemIndex = (
+  items: CartItem[],
+  productId: string,
+  selectedVariants: Record<string, string>,
+): number =>
+  items.findIndex(
+    item =>
+      skuKey(item.productId, item.selectedVariants) ===
+      skuKey(productId, selectedVariants),
+  );
+
+const rejectQuantity = (
+  productId: string,
+  productName: string,
+  requested: number,
+  available: number,
+): never => {
+  embraceService.logWarning('Cart quantity capped by stock', {
+    'product.id': productId,
+    'quantity.requested': requested.toString(),
+    'quantity.available': available.toString(),
+  });
+  throw new QuantityCapError(productName, available);
+};
+
 export const useCartStore = create<CartState>()(
   persist(
     (set, get) => ({
       items: [],
       totalItems: 0,
       subtotal: 0,
+      userId: null,
+      cartId: null,
+      updatedAt: new Date(0).toISOString(),
+      pendingChanges: [],
+
+      addItem: (
+        product: Product,
+        quantity: number,
+        selectedVariants = {},
+        available?: number,
+      ) => {
+        try {
+          assertPurchasable(product, selectedVariants);
+        } catch (error) {
+          if (error instanceof VariantSelectionError) {
+            embraceService.logWarning('Add to cart rejected', {
+              'product.id': product.id,
+              'failure.reason': error.reason,
+              variants: JSON.stringify(selectedVariants),
+            });
+          }
+          throw error;
+        }
+        const unitPrice = calculateUnitPrice(product, selectedVariants);
+
+        const existing =
+          get().items[findItemIndex(get().items, product.id, selectedVariants)];
+        const maxQuantity =
+          available ?? existing?.maxQuantity ?? product.stockCount;
+        const requested = (existing?.quantity ?? 0) + quantity;
+        if (requested > maxQuantity) {
+          rejectQuantity(product.id, product.name, requested, maxQuantity);
+        }
 
-      addItem: (product: Product, quantity: number, selectedVariants = {}) => {
         set(state => {
-          const existingItemIndex = state.items.findIndex(
-            item =>
-              item.productId === product.id &&
-              JSON.stringify(item.selectedVariants) ===
-                JSON.stringify(selectedVariants),
+          const existingItemIndex = findItemIndex(
+            state.items,
+            product.id,
+            selectedVariants,
           );
 
           let newItems: CartItem[];
@@ -44,16 +146,18 @@ export const useCartStore = create<CartState>()(
             newItems[existingItemIndex] = {
               ...newItems[existingItemIndex],
               quantity: newItems[existingItemIndex].quantity + quantity,
+              maxQuantity,
             };
           } else {
             const newItem: CartItem = {
-              id: `cart-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+              id: `cart-${Date.now()}-${randomService.id(9, 'cart_items')}`,
               productId: product.id,
               product,
               quantity,
               selectedVariants,
-              unitPrice: product.price,
+              unitPrice,
               addedAt: new Date().toISOString(),
+              maxQuantity,
             };
             newItems = [...state.items, newItem];
           }
@@ -64,7 +168,7 @@ export const useCartStore = create<CartState>()(
           embraceService.trackAddToCart({
             productId: product.id,
             quantity,
-            price: product.price,
+            price: unitPrice,
             cartTotalItems: totalItems,
             cartSubtotal: subtotal,
           });
@@ -79,8 +183,14 @@ export const useCartStore = create<CartState>()(
             },
           );
 
-          return {items: newItems, totalItems, subtotal};
+          return {
+            items: newItems,
+            totalItems,
+            subtotal,
+            updatedAt: new Date().toISOString(),
+          };
         });
+        scheduleSync();
       },
 
       removeItem: (itemId: string) => {
@@ -98,11 +208,31 @@ export const useCartStore = create<CartState>()(
             });
           }
 
-          return {items: newItems, totalItems, subtotal};
+          return {
+            items: newItems,
+            totalItems,
+            subtotal,
+            updatedAt: new Date().toISOString(),
+          };
         });
+        scheduleSync();
       },
 
       updateQuantity: (itemId: string, quantity: number) => {
+        const current = get().items.find(i => i.id === itemId);
+        if (current) {
+          const maxQuantity =
+            current.maxQuantity ?? current.product.stockCount;
+          if (quantity > current.quantity && quantity > maxQuantity) {
+            rejectQuantity(
+              current.productId,
+              current.product.name,
+              quantity,
+              maxQuantity,
+            );
+          }
+        }
+
         set(state => {
           const item = state.items.find(i => i.id === itemId);
 
@@ -114,7 +244,12 @@ export const useCartStore = create<CartState>()(
               embraceService.trackRemoveFromCart(item.productId, totalItems);
             }
 
-            return {items: newItems, totalItems, subtotal};
+            return {
+              items: newItems,
+              totalItems,
+              subtotal,
+              updatedAt: new Date().toISOString(),
+            };
           }
 
           const newItems = state.items.map(i =>
@@ -134,18 +269,259 @@ export const useCartStore = create<CartState>()(
             );
           }
 
-          return {items: newItems, totalItems, subtotal};
+          return {
+            items: newItems,
+            totalItems,
+            subtotal,
+            updatedAt: new Date().toISOString(),
+          };
         });
+        scheduleSync();
+      },
+
+      setStockLevels: (levels: StockLevel[]) => {
+        const available = new Map(
+          levels.map(level => [
+            skuKey(level.productId, level.selectedVariants),
+            level.available,
+          ]),
+        );
+        set(state => ({
+          items: state.items.map(item => {
+            const maxQuantity = available.get(
+              skuKey(item.productId, item.selectedVariants),
+            );
+            return maxQuantity === undefined ? item : {...item, maxQuantity};
+          }),
+        }));
       },
 
       clearCart: () => {
         embraceService.trackCartCleared();
-        set({items: [], totalItems: 0, subtotal: 0});
+        set({
+          items: [],
+          totalItems: 0,
+          subtotal: 0,
+          pendingChanges: [],
+          updatedAt: new Date().toISOString(),
+        });
+        scheduleSync();
       },
 
       getItemByProductId: (productId: string) => {
         return get().items.find(item => item.productId === productId);
       },
+
+      /**
+       * Links the cart to a signed-in account and merges whatever was added
+       * on this device with the cart already stored for that account.
+       */
+      attachUser: async (userId: string) => {
+        const startTime = Date.now();
+        const state = get();
+        const local: Cart = {
+          id: state.cartId || `cart-${userId}`,
+          userId,
+          items: state.items,
+          updatedAt: state.updatedAt,
+        };
+        set({userId, cartId: local.id});
+
+        try {
+          const remote = await apiService.fetchCart(userId);
+          const {items, strategy, conflicts} = mergeCarts(local, remote);
+          const {totalItems, subtotal} = calculateCartTotals(items);
+          const updatedAt =
+            strategy === 'adopt_remote'
+              ? remote.updatedAt
+              : new Date().toISOString();
+
+          set({items, totalItems, subtotal, cartId: remote.id, updatedAt});
+          embraceService.trackCartMerge(
+            {
+              strategy,
+              localItemCount: local.items.length,
+              remoteItemCount: remote.items.length,
+              mergedItemCount: items.length,
+              conflictCount: conflicts,
+            },
+            startTime,
+          );
+
+          if (strategy !== 'adopt_remote') {
+            await get().syncCart();
+          }
+        } catch (error) {
+          // Keep the device cart; the next edit retries the sync
+          const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error';
+          embraceService.logError('Cart merge failed', {
+            'user.id': userId,
+            'error.message': errorMessage,
+          });
+        }
+      },
+
+      detachUser: () => {
+        if (syncTimer) {
+          clearTimeout(syncTimer);
+          syncTimer = null;
+        }
+        // The account's cart stays on the server for the next sign in
+        set({
+          items: [],
+          totalItems: 0,
+          subtotal: 0,
+          userId: null,
+          cartId: null,
+          updatedAt: new Date().toISOString(),
+          pendingChanges: [],
+        });
+      },
+
+      /**
+       * Re-fetches every product in the cart and its stock level, reprices
+       * lines whose price moved, trims quantities to what is in stock and
+       * drops lines that can no longer be bought. Returns the changes, which
+       * also stay in `pendingChanges` until acknowledged.
+       */
+      revalidate: async (trigger: RevalidationTrigger) => {
+        const startTime = Date.now();
+        const items = get().items;
+        if (items.length === 0) {
+          return [];
+        }
+
+        // An unreachable product or stock level is left as-is rather than
+        // treated as discontinued
+        const productIds = [...new Set(items.map(item => item.productId))];
+        const products = new Map(
+          await Promise.all(
+            productIds.map(
+              async id =>
+                [
+                  id,
+                  await apiService.fetchProductById(id).catch(() => undefined),
+                ] as const,
+            ),
+          ),
+        );
+        // Mid-checkout, the units this shopper reserved are still theirs
+        const {reservationId} = useCheckoutStore.getState();
+        const stockLevels = await Promise.all(
+          items.map(item =>
+            apiService
+              .fetchStockLevel(
+                item.productId,
+                item.selectedVariants,
+                reservationId || undefined,
+              )
+              .then(level => level.available)
+              .catch(() => null),
+          ),
+        );
+
+        const updates = new Map<string, CartItem | null>();
+        const changes: CartChange[] = [];
+        items.forEach((item, index) => {
+          const product = products.get(item.productId);
+          if (product === undefined) {
+            return;
+          }
+          const result = revalidateCartItem(item, product, stockLevels[index]);
+          updates.set(item.id, result.item);
+          changes.push(...result.changes);
+        });
+
+        set(state => {
+          // Lines added while the products were loading are kept untouched
+          const newItems = state.items.flatMap(item => {
+            const updated = updates.get(item.id);
+            if (updated === undefined) {
+              return [item];
+            }
+            if (!updated) {
+              return [];
+            }
+            // Keep edits made meanwhile, within the stock that was found
+            const quantity =
+              updated.maxQuantity === undefined
+                ? item.quantity
+                : Math.min(item.quantity, updated.maxQuantity);
+            return [{...updated, quantity}];
+          });
+          const {totalItems, subtotal} = calculateCartTotals(newItems);
+          const changedIds = new Set(changes.map(change => change.itemId));
+
+          return {
+            items: newItems,
+            totalItems,
+            subtotal,
+            updatedAt:
+              changes.length > 0 ? new Date().toISOString() : state.updatedAt,
+            pendingChanges: [
+              ...state.pendingChanges.filter(
+                change => !changedIds.has(change.itemId),
+              ),
+              ...changes,
+            ],
+          };
+        });
+
+        embraceService.trackCartRevalidation(
+          {trigger, itemCount: items.length, changes},
+          startTime,
+        );
+        if (changes.length > 0) {
+          scheduleSync();
+        }
+        return changes;
+      },
+
+      acknowledgeChanges: () => {
+        embraceService.addBreadcrumb('CART_CHANGES_ACKNOWLEDGED');
+        set({pendingChanges: []});
+      },
+
+      syncCart: async () => {
+        const {userId, cartId, items, updatedAt} = get();
+        if (!userId) {
+          return;
+        }
+
+        try {
+          const saved = await apiService.saveCart({
+            id: cartId || `cart-${userId}`,
+            userId,
+            items,
+            updatedAt,
+          });
+
+          // Another device changed the cart more recently; its version wins
+          if (
+            saved.userId === get().userId &&
+            new Date(saved.updatedAt).getTime() >
+              new Date(get().updatedAt).getTime()
+          ) {
+            const totals = calculateCartTotals(saved.items);
+            set({
+              items: saved.items,
+              ...totals,
+              cartId: saved.id,
+              updatedAt: saved.updatedAt,
+            });
+            embraceService.logInfo('Cart replaced by newer server copy', {
+              'cart.item_count': saved.items.length.toString(),
+            });
+          }
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error';
+          embraceService.logWarning('Cart sync failed', {
+            'error.message': errorMessage,
+          });
+        }
+      },
     }),
     {
       name: 'cart-storage',
@@ -0,0 +1,105 @@
+import {create} from 'zustand';
+import {persist, createJSONStorage} from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {OrderRequest} from '../models/Order';
+import {embraceService} from '../services/embrace';
+import {randomService} from '../services/random';
+
+interface CheckoutState {
+  idempotencyKey: string | null;
+  orderFingerprint: string | null;
+  reservationId: string | null;
+  traceSpanId: string | null;
+  beginAttempt: (request: OrderRequest) => string;
+  completeAttempt: () => void;
+  setReservation: (reservationId: string | null) => void;
+  startTrace: () => string | null;
+  endTrace: (success: boolean) => void;
+}
+
+// Identifies everything an attempt would charge and ship: the cart, the
+// payment method, both addresses, the shipping method and the promotions.
+// Changing any of them after a failed submit starts a new attempt, so the
+// backend never replays an order or charge made for the old request.
+const fingerprintOrder = (request: OrderRequest): string =>
+  JSON.stringify([
+    request.items?.map(item => [
+      item.productId,
+      item.selectedVariants,
+      item.quantity,
+      item.unitPrice,
+    ]),
+    request.paymentMethod?.token,
+    request.shippingAddress,
+    request.billingAddress,
+    request.shippingMethodId,
+    request.discounts?.map(discount => discount.code),
+    request.total?.toFixed(2),
+    request.currency,
+  ]);
+
+export const useCheckoutStore = create<CheckoutState>()(
+  persist(
+    (set, get) => ({
+      idempotencyKey: null,
+      orderFingerprint: null,
+      reservationId: null,
+      traceSpanId: null,
+
+      beginAttempt: (request: OrderRequest) => {
+        const fingerprint = fingerprintOrder(request);
+        const {idempotencyKey, orderFingerprint} = get();
+
+        // Resubmitting the same order reuses the key so the backend can dedupe it
+        if (idempotencyKey && orderFingerprint === fingerprint) {
+          embraceService.addBreadcrumb('CHECKOUT_ATTEMPT_RESUMED');
+          return idempotencyKey;
+        }
+
+        const key = `chk-${Date.now()}-${randomService.id(12, 'idempotency')}`;
+        embraceService.addBreadcrumb('CHECKOUT_ATTEMPT_STARTED');
+        set({idempotencyKey: key, orderFingerprint: fingerprint});
+        return key;
+      },
+
+      completeAttempt: () => {
+        set({idempotencyKey: null, orderFingerprint: null});
+      },
+
+      // Persisted so a reservation left behind by a killed app can be
+      // released on the next checkout
+      setReservation: (reservationId: string | null) => {
+        set({reservationId});
+      },
+
+      // Root span for one visit to checkout; payment intent phases nest under it
+      startTrace: () => {
+        const {traceSpanId} = get();
+        if (traceSpanId) {
+          embraceService.endSpan(traceSpanId, false);
+        }
+        const spanId = embraceService.startSpan('checkout');
+        set({traceSpanId: spanId});
+        return spanId;
+      },
+
+      endTrace: (success: boolean) => {
+        const {traceSpanId} = get();
+        if (traceSpanId) {
+          embraceService.endSpan(traceSpanId, success);
+          set({traceSpanId: null});
+        }
+      },
+    }),
+    {
+      name: 'checkout-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      // Spans do not outlive the app process, so the trace is not persisted
+      partialize: state => ({
+        idempotencyKey: state.idempotencyKey,
+        orderFingerprint: state.orderFingerprint,
+        reservationId: state.reservationId,
+      }),
+    },
+  ),
+);
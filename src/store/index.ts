@@ -1,2 +1,6 @@
 export {useCartStore} from './cartStore';
-export {useAuthStore} from './authStore';
+export {useAuthStore, usePreferredCurrency} from './authStore';
+export {useCheckoutStore} from './checkoutStore';
+export {useOrderStore} from './orderStore';
+export {useAddressStore} from './addressStore';
+export {usePaymentMethodStore} from './paymentMethodStore';
@@ -0,0 +1,132 @@
+import {create} from 'zustand';
+import {persist, createJSONStorage} from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {Order, OrderStatusChange} from '../models/Order';
+import {apiService} from '../services/api';
+import {embraceService} from '../services/embrace';
+
+interface OrderState {
+  ordersByUser: Record<string, Order[]>;
+  saveOrder: (order: Order) => void;
+  getOrders: (userId: string) => Order[];
+  getOrder: (orderId: string) => Order | undefined;
+  loadOrders: (userId: string) => Promise<Order[]>;
+  loadOrder: (orderId: string) => Promise<Order | undefined>;
+  cancelOrder: (orderId: string, reason: string) => Promise<Order>;
+  requestRefund: (orderId: string, reason: string) => Promise<Order>;
+}
+
+const sortByNewest = (orders: Order[]): Order[] =>
+  [...orders].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+  );
+
+// Status changes in the remote copy of an order made after the local copy
+// was last updated. Orders from before the history was kept report the
+// difference as a single change.
+const getNewStatusChanges = (
+  local: Order,
+  remote: Order,
+): OrderStatusChange[] => {
+  if (!remote.statusHistory) {
+    return local.status === remote.status
+      ? []
+      : [{from: local.status, to: remote.status, changedAt: remote.updatedAt}];
+  }
+  const seenUntil = new Date(local.updatedAt).getTime();
+  return remote.statusHistory.filter(
+    change => new Date(change.changedAt).getTime() > seenUntil,
+  );
+};
+
+// Keeps whichever copy of each order was updated most recently and logs
+// every status change picked up from the backend
+const mergeOrders = (local: Order[], remote: Order[]): Order[] => {
+  const merged = new Map(local.map(order => [order.id, order]));
+  remote.forEach(order => {
+    const existing = merged.get(order.id);
+    if (
+      !existing ||
+      new Date(order.updatedAt).getTime() >=
+        new Date(existing.updatedAt).getTime()
+    ) {
+      if (existing) {
+        getNewStatusChanges(existing, order).forEach(change =>
+          embraceService.trackOrderStatusChange(
+            order.id,
+            change.from,
+            change.to,
+            order.trackingNumber,
+          ),
+        );
+      }
+      merged.set(order.id, order);
+    }
+  });
+  return sortByNewest([...merged.values()]);
+};
+
+export const useOrderStore = create<OrderState>()(
+  persist(
+    (set, get) => ({
+      ordersByUser: {},
+
+      saveOrder: (order: Order) => {
+        const {ordersByUser} = get();
+        set({
+          ordersByUser: {
+            ...ordersByUser,
+            [order.userId]: mergeOrders(ordersByUser[order.userId] || [], [
+              order,
+            ]),
+          },
+        });
+      },
+
+      getOrders: (userId: string) => {
+        return get().ordersByUser[userId] || [];
+      },
+
+      getOrder: (orderId: string) => {
+        return Object.values(get().ordersByUser)
+          .flat()
+          .find(order => order.id === orderId);
+      },
+
+      loadOrders: async (userId: string) => {
+        // Orders the backend no longer knows about stay available from the
+        // persisted copy
+        const remote = await apiService.fetchUserOrders(userId);
+        const {ordersByUser} = get();
+        const orders = mergeOrders(ordersByUser[userId] || [], remote);
+        set({ordersByUser: {...ordersByUser, [userId]: orders}});
+        embraceService.addBreadcrumb(`ORDERS_SYNCED_${orders.length}`);
+        return orders;
+      },
+
+      loadOrder: async (orderId: string) => {
+        const remote = await apiService.fetchOrderById(orderId);
+        if (remote) {
+          get().saveOrder(remote);
+        }
+        return get().getOrder(orderId);
+      },
+
+      cancelOrder: async (orderId: string, reason: string) => {
+        const order = await apiService.cancelOrder(orderId, reason);
+        get().saveOrder(order);
+        return order;
+      },
+
+      requestRefund: async (orderId: string, reason: string) => {
+        const order = await apiService.requestRefund(orderId, reason);
+        get().saveOrder(order);
+        return order;
+      },
+    }),
+    {
+      name: 'order-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    },
+  ),
+);
@@ -0,0 +1,101 @@
+import {create} from 'zustand';
+import {persist, createJSONStorage} from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {PaymentMethod, PaymentMethodInput} from '../models/Payment';
+import {apiService} from '../services/api';
+import {embraceService} from '../services/embrace';
+
+interface PaymentMethodState {
+  methodsByUser: Record<string, PaymentMethod[]>;
+  getPaymentMethods: (userId: string) => PaymentMethod[];
+  loadPaymentMethods: (userId: string) => Promise<PaymentMethod[]>;
+  savePaymentMethod: (
+    userId: string,
+    paymentMethod: PaymentMethodInput,
+    makeDefault?: boolean,
+  ) => Promise<PaymentMethod>;
+  deletePaymentMethod: (
+    userId: string,
+    paymentMethodId: string,
+  ) => Promise<PaymentMethod[]>;
+  setDefaultPaymentMethod: (
+    userId: string,
+    paymentMethodId: string,
+  ) => Promise<PaymentMethod[]>;
+}
+
+const sortDefaultFirst = (methods: PaymentMethod[]): PaymentMethod[] =>
+  [...methods].sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+
+// Only provider tokens and card metadata are persisted; card numbers and
+// CVCs never reach this store
+export const usePaymentMethodStore = create<PaymentMethodState>()(
+  persist(
+    (set, get) => {
+      const storeMethods = (userId: string, methods: PaymentMethod[]) => {
+        const sorted = sortDefaultFirst(methods);
+        set({methodsByUser: {...get().methodsByUser, [userId]: sorted}});
+        return sorted;
+      };
+
+      return {
+        methodsByUser: {},
+
+        getPaymentMethods: (userId: string) => {
+          return get().methodsByUser[userId] || [];
+        },
+
+        loadPaymentMethods: async (userId: string) => {
+          const methods = storeMethods(
+            userId,
+            await apiService.fetchPaymentMethods(userId),
+          );
+          embraceService.addBreadcrumb(
+            `PAYMENT_METHODS_SYNCED_${methods.length}`,
+          );
+          return methods;
+        },
+
+        savePaymentMethod: async (
+          userId: string,
+          paymentMethod: PaymentMethodInput,
+          makeDefault = false,
+        ) => {
+          const methods = storeMethods(
+            userId,
+            await apiService.savePaymentMethod(
+              userId,
+              paymentMethod,
+              makeDefault,
+            ),
+          );
+          return methods.find(m => m.token === paymentMethod.token)!;
+        },
+
+        deletePaymentMethod: async (
+          userId: string,
+          paymentMethodId: string,
+        ) => {
+          return storeMethods(
+            userId,
+            await apiService.deletePaymentMethod(userId, paymentMethodId),
+          );
+        },
+
+        setDefaultPaymentMethod: async (
+          userId: string,
+          paymentMethodId: string,
+        ) => {
+          return storeMethods(
+            userId,
+            await apiService.setDefaultPaymentMethod(userId, paymentMethodId),
+          );
+        },
+      };
+    },
+    {
+      name: 'payment-method-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    },
+  ),
+);
@@ -0,0 +1,12 @@
+// Small helpers shared by the services. Nothing here may depend on React
+// Native modules, since the mock backend imports it too.
+
+export const roundToCents = (amount: number): number =>
+  Math.round(amount * 100) / 100;
+
+export const delay = (ms: number): Promise<void> =>
+  new Promise(resolve => setTimeout(() => resolve(), ms));
+
+// Compares free-text fields such as state and country names
+export const sameText = (a: string, b: string): boolean =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();